@@ -1,4 +1,20 @@
-import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+
+/**
+ * Error raised by strict WebDAV requests, carrying the HTTP status so callers
+ * can react to specific failures (e.g. 412 Precondition Failed).
+ */
+export class NextcloudRequestError extends Error {
+  public readonly status?: number;
+  public readonly data?: unknown;
+
+  constructor(message: string, status?: number, data?: unknown) {
+    super(message);
+    this.name = 'NextcloudRequestError';
+    this.status = status;
+    this.data = data;
+  }
+}
 
 export class BaseNextcloudClient {
   protected readonly client: AxiosInstance;
@@ -90,4 +106,51 @@ export class BaseNextcloudClient {
       }
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * WebDAV request that rejects on non-2xx responses instead of returning the
+   * error body, and exposes the full response (status, headers such as ETag).
+   */
+  protected async makeStrictWebDAVRequest(config: AxiosRequestConfig): Promise<AxiosResponse<string>> {
+    if (config.url) {
+      config.url = config.url.replace('{username}', this.username);
+    }
+
+    const webdavConfig = {
+      ...config,
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Depth': config.headers?.['Depth'] || '1',
+        ...config.headers,
+      },
+      responseType: 'text' as const,
+    };
+
+    try {
+      const response = await this.client.request<string>(webdavConfig);
+      console.log('Strict WebDAV response:', {
+        method: webdavConfig.method,
+        url: webdavConfig.url,
+        status: response.status,
+        dataLength: response.data?.length || 0,
+      });
+      return response;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const status = error.response?.status;
+        console.error('Strict WebDAV request failed:', {
+          method: webdavConfig.method,
+          url: webdavConfig.url,
+          status,
+          message: error.message,
+        });
+        throw new NextcloudRequestError(
+          `Nextcloud WebDAV request failed: ${error.message} (Status: ${status})`,
+          status,
+          error.response?.data
+        );
+      }
+      throw new NextcloudRequestError(`An unexpected error occurred: ${error}`);
+    }
+  }
+}
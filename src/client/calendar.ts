@@ -1,6 +1,85 @@
-import { BaseNextcloudClient } from './base';
-import { Calendar, Event } from '../models/calendar';
+import { BaseNextcloudClient, NextcloudRequestError } from './base.js';
+import {
+  Agenda,
+  AgendaConflict,
+  AgendaDay,
+  AgendaItem,
+  Attendee,
+  AttendeeRole,
+  BusyPeriod,
+  Calendar,
+  CalendarChanges,
+  CalendarImportResult,
+  CalendarObject,
+  CalendarPublication,
+  CalendarShare,
+  CalendarSyncState,
+  Event,
+  FreeBusyResult,
+  MeetingSlotSuggestion,
+  Organizer,
+  ParticipationStatus,
+  Reminder,
+  ReminderAction,
+  ShareeType,
+} from '../models/calendar.js';
 import { XMLParser } from 'fast-xml-parser';
+import { randomUUID } from 'crypto';
+import {
+  escapeICalText,
+  findICalComponents,
+  formatICalDateTimeLike,
+  formatICalDateTimeUTC,
+  formatICalDuration,
+  getICalParam,
+  getICalProperties,
+  getICalProperty,
+  ICalComponent,
+  ICalProperty,
+  isICalDate,
+  parseICalDateTime,
+  parseICalDuration,
+  parseICalendarData,
+  serializeICalComponent,
+  setICalProperty,
+  splitICalList,
+  toICalDateTimeUTC,
+  unescapeICalText,
+  unfoldLines,
+} from '../utils/icalendar.js';
+import {
+  DEFAULT_WORKING_HOURS,
+  findFreeSlots,
+  findOverlaps,
+  mergeIntervals,
+  TimeInterval,
+  WorkingHours,
+} from '../utils/availability.js';
+import { expandRecurrence, parseRecurrenceRule, RecurrenceRule } from '../utils/recurrence.js';
+import {
+  buildVTimezone,
+  getVTimezoneOffset,
+  isDateOnly,
+  isValidTimeZone,
+  normalizeTimeZoneId,
+  parseWallClock,
+  utcToZonedTime,
+  zonedTimeToUtc,
+} from '../utils/timezone.js';
+
+/**
+ * Asks Nextcloud to serve the cached contents of webcal subscriptions, which
+ * it otherwise only does for a fixed list of client user agents
+ */
+const WEBCAL_CACHING_HEADERS = { 'X-NC-CalDAV-Webcal-Caching': 'On' };
+
+// Properties whose change makes an event update a new revision (SEQUENCE)
+const SIGNIFICANT_PROPERTIES = ['DTSTART', 'DTEND', 'DURATION', 'RRULE', 'RDATE', 'EXDATE', 'LOCATION'];
+
+// Calendar Nextcloud generates from the birthdays in the user's contacts
+const BIRTHDAY_CALENDAR_ID = 'contact_birthdays';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
 export class CalendarClient extends BaseNextcloudClient {
   private xmlParser = new XMLParser({
@@ -8,17 +87,26 @@ export class CalendarClient extends BaseNextcloudClient {
     attributeNamePrefix: "@_",
     allowBooleanAttributes: true,
   });
+  private customTimezones = new Map<string, ICalComponent>();
+  private userAddresses?: string[];
+  // Cache of the last sync per calendar; callers hold the state through the returned syncToken
+  private syncStates = new Map<string, CalendarSyncState>();
+  private subscriptionIds?: Set<string>;
+  private userDisplayName?: string;
 
   public async listCalendars(): Promise<Calendar[]> {
     const propfindXml = `<?xml version="1.0" encoding="utf-8" ?>
-<d:propfind xmlns:d="DAV:" xmlns:cs="http://calendarserver.org/ns/" xmlns:c="urn:ietf:params:xml:ns:caldav">
+<d:propfind xmlns:d="DAV:" xmlns:cs="http://calendarserver.org/ns/" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:x1="http://apple.com/ns/ical/">
   <d:prop>
     <d:displayname />
     <d:resourcetype />
     <c:calendar-description />
     <cs:getctag />
-    <c:calendar-color />
-    <c:calendar-order />
+    <x1:calendar-color />
+    <x1:calendar-order />
+    <c:supported-calendar-component-set />
+    <cs:source />
+    <x1:refreshrate />
   </d:prop>
 </d:propfind>`;
 
@@ -34,6 +122,7 @@ export class CalendarClient extends BaseNextcloudClient {
       });
 
       const calendars = this.parseCalendarsResponse(response);
+      this.subscriptionIds = new Set(calendars.filter(calendar => calendar.subscribed).map(calendar => calendar.id));
       
       // If no calendars found, try to check for default "personal" calendar
       if (calendars.length === 0) {
@@ -63,104 +152,1821 @@ export class CalendarClient extends BaseNextcloudClient {
       
       return calendars;
     } catch (error) {
-      console.error('Error listing calendars:', error);
-      return [];
+      console.error('Error listing calendars:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a calendar collection with MKCALENDAR. The id defaults to a slug of
+   * the display name; `components` selects whether it holds events, tasks or both.
+   */
+  public async createCalendar(options: {
+    displayName: string;
+    id?: string;
+    description?: string;
+    color?: string;
+    order?: number;
+    components?: string[];
+  }): Promise<Calendar> {
+    const id = this.getNewCalendarId(options.id, options.displayName);
+    const components = options.components?.length ? options.components : ['VEVENT'];
+    const color = options.color !== undefined ? this.normalizeColor(options.color) : undefined;
+
+    const mkcalendarXml = `<?xml version="1.0" encoding="utf-8" ?>
+<c:mkcalendar xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:x1="http://apple.com/ns/ical/">
+  <d:set>
+    <d:prop>
+${this.buildCalendarPropsXml({ ...options, color })}
+      <c:supported-calendar-component-set>
+${components.map(component => `        <c:comp name="${this.escapeXml(component)}" />`).join('\n')}
+      </c:supported-calendar-component-set>
+    </d:prop>
+  </d:set>
+</c:mkcalendar>`;
+
+    try {
+      await this.makeStrictWebDAVRequest({
+        method: 'MKCALENDAR',
+        url: `/remote.php/dav/calendars/{username}/${id}/`,
+        data: mkcalendarXml,
+        headers: {
+          'Depth': '0',
+        },
+      });
+    } catch (error) {
+      if (error instanceof NextcloudRequestError && error.status === 405) {
+        throw new NextcloudRequestError(`A calendar with id ${id} already exists. Choose a different id.`, 405, error.data);
+      }
+      throw error;
+    }
+
+    return {
+      id,
+      displayName: options.displayName,
+      description: options.description || '',
+      color: color || '',
+      order: options.order || 0,
+      ctag: '',
+      components,
+    };
+  }
+
+  /**
+   * Rename, recolour, reorder or re-describe a calendar with PROPPATCH
+   */
+  public async updateCalendar(
+    calendarId: string,
+    changes: { displayName?: string; description?: string; color?: string; order?: number }
+  ): Promise<Calendar> {
+    this.assertCalendarId(calendarId);
+    const color = changes.color !== undefined ? this.normalizeColor(changes.color) : undefined;
+    const props = this.buildCalendarPropsXml({ ...changes, color });
+    if (!props) {
+      throw new Error('Nothing to update: pass displayName, description, color or order');
+    }
+
+    const proppatchXml = `<?xml version="1.0" encoding="utf-8" ?>
+<d:propertyupdate xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:x1="http://apple.com/ns/ical/">
+  <d:set>
+    <d:prop>
+${props}
+    </d:prop>
+  </d:set>
+</d:propertyupdate>`;
+
+    const response = await this.makeStrictWebDAVRequest({
+      method: 'PROPPATCH',
+      url: `/remote.php/dav/calendars/{username}/${calendarId}/`,
+      data: proppatchXml,
+      headers: {
+        'Depth': '0',
+      },
+    });
+
+    // PROPPATCH reports failures per property inside a 207 Multi-Status
+    const failed = /<(?:\w+:)?status>[^<]*\s[45]\d\d\s[^<]*<\/(?:\w+:)?status>/.exec(response.data);
+    if (failed) {
+      throw new Error(`Updating calendar ${calendarId} failed: ${failed[0].replace(/<[^>]+>/g, '')}`);
+    }
+
+    const calendars = await this.listCalendars();
+    return calendars.find(calendar => calendar.id === calendarId) || {
+      id: calendarId,
+      displayName: changes.displayName || '',
+      ...changes,
+      ...(color && { color }),
+    };
+  }
+
+  public async deleteCalendar(calendarId: string): Promise<void> {
+    this.assertCalendarId(calendarId);
+    await this.makeStrictWebDAVRequest({
+      method: 'DELETE',
+      url: `/remote.php/dav/calendars/{username}/${calendarId}/`,
+    });
+  }
+
+  private buildCalendarPropsXml(props: { displayName?: string; description?: string; color?: string; order?: number }): string {
+    return [
+      props.displayName !== undefined && `      <d:displayname>${this.escapeXml(props.displayName)}</d:displayname>`,
+      props.description !== undefined && `      <c:calendar-description>${this.escapeXml(props.description)}</c:calendar-description>`,
+      props.color !== undefined && `      <x1:calendar-color>${this.escapeXml(props.color)}</x1:calendar-color>`,
+      props.order !== undefined && `      <x1:calendar-order>${props.order}</x1:calendar-order>`,
+    ].filter(Boolean).join('\n');
+  }
+
+  /**
+   * Accept #RGB, #RRGGBB or #RRGGBBAA and return the #RRGGBB form Nextcloud uses
+   */
+  private normalizeColor(color: string): string {
+    const hex = color.trim().replace(/^#/, '');
+    if (/^[0-9a-f]{3}$/i.test(hex)) {
+      return `#${hex.split('').map(digit => digit + digit).join('')}`.toUpperCase();
+    }
+    if (/^[0-9a-f]{6}([0-9a-f]{2})?$/i.test(hex)) {
+      return `#${hex.substring(0, 6)}`.toUpperCase();
+    }
+    throw new Error(`Invalid color: ${color}. Use a hex color such as #0082C9`);
+  }
+
+  /**
+   * Id (URL segment) for a new calendar: the given one, which must be a safe
+   * path segment, or a slug of the display name
+   */
+  private getNewCalendarId(id: string | undefined, displayName: string): string {
+    if (id && (!/^[a-z0-9._-]+$/.test(id) || /^\.+$/.test(id))) {
+      throw new Error(`Invalid calendar id: ${id}. Use lower-case letters, digits, ".", "_" and "-" only`);
+    }
+    return id || this.slugify(displayName) || randomUUID();
+  }
+
+  /**
+   * Existing calendars may have been created by other clients with upper-case
+   * ids, so only reject ids that are not a single safe path segment
+   */
+  private assertCalendarId(id: string): void {
+    if (!/^[A-Za-z0-9._-]+$/.test(id) || /^\.+$/.test(id)) {
+      throw new Error(`Invalid calendar id: ${id}`);
+    }
+  }
+
+  private slugify(value: string): string {
+    return value
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+
+  /**
+   * Subscribe to a remote iCalendar feed (webcal). Nextcloud fetches the feed
+   * itself and exposes its events read-only under the given id.
+   */
+  public async subscribeCalendar(options: {
+    source: string;
+    displayName: string;
+    id?: string;
+    color?: string;
+    refreshRate?: string;
+  }): Promise<Calendar> {
+    if (!/^(https?|webcals?):\/\/\S+$/i.test(options.source.trim())) {
+      throw new Error(`Invalid subscription URL: ${options.source}. Use an http(s):// or webcal:// address`);
+    }
+    if (options.refreshRate !== undefined && parseICalDuration(options.refreshRate) === undefined) {
+      throw new Error(`Invalid refresh rate: ${options.refreshRate}. Use an ISO 8601 duration such as PT6H or P1D`);
+    }
+
+    const id = this.getNewCalendarId(options.id, options.displayName);
+    const color = options.color !== undefined ? this.normalizeColor(options.color) : undefined;
+
+    const mkcolXml = `<?xml version="1.0" encoding="utf-8" ?>
+<d:mkcol xmlns:d="DAV:" xmlns:cs="http://calendarserver.org/ns/" xmlns:x1="http://apple.com/ns/ical/">
+  <d:set>
+    <d:prop>
+      <d:resourcetype>
+        <d:collection />
+        <cs:subscribed />
+      </d:resourcetype>
+${this.buildCalendarPropsXml({ displayName: options.displayName, color })}
+      <cs:source>
+        <d:href>${this.escapeXml(options.source.trim())}</d:href>
+      </cs:source>${options.refreshRate ? `
+      <x1:refreshrate>${this.escapeXml(options.refreshRate)}</x1:refreshrate>` : ''}
+    </d:prop>
+  </d:set>
+</d:mkcol>`;
+
+    try {
+      await this.makeStrictWebDAVRequest({
+        method: 'MKCOL',
+        url: `/remote.php/dav/calendars/{username}/${id}/`,
+        data: mkcolXml,
+        headers: {
+          'Depth': '0',
+        },
+      });
+    } catch (error) {
+      if (error instanceof NextcloudRequestError && error.status === 405) {
+        throw new NextcloudRequestError(`A calendar with id ${id} already exists. Choose a different id.`, 405, error.data);
+      }
+      throw error;
+    }
+
+    this.subscriptionIds?.add(id);
+    return {
+      id,
+      displayName: options.displayName,
+      color: color || '',
+      ctag: '',
+      subscribed: true,
+      source: options.source.trim(),
+      ...(options.refreshRate && { refreshRate: options.refreshRate }),
+    };
+  }
+
+  /**
+   * Remove a subscription. Refuses to delete regular calendars.
+   */
+  public async unsubscribeCalendar(calendarId: string): Promise<void> {
+    if (!(await this.isSubscription(calendarId))) {
+      throw new Error(`Calendar ${calendarId} is not a subscription; regular calendars are removed by deleting them.`);
+    }
+
+    await this.deleteCalendar(calendarId);
+    this.subscriptionIds?.delete(calendarId);
+  }
+
+  private async isSubscription(calendarId: string): Promise<boolean> {
+    if (!this.subscriptionIds) {
+      await this.listCalendars();
+    }
+    return !!this.subscriptionIds?.has(calendarId);
+  }
+
+  /**
+   * Subscriptions are read-only; reject writes before they reach the server
+   */
+  protected async assertWritableCalendar(calendarId: string): Promise<void> {
+    if (await this.isSubscription(calendarId)) {
+      throw new Error(`Calendar ${calendarId} is a read-only subscription. Events can only be changed at the subscription's source.`);
+    }
+  }
+
+  /**
+   * Report what changed in a calendar since the given sync-token, using the
+   * WebDAV sync-collection REPORT (RFC 6578). The caller keeps the returned
+   * token; the last one per calendar is also cached, which falls back in when
+   * no token is passed. Without a token (or with `reset`) every event is
+   * returned as added. An unchanged ctag short-circuits the REPORT.
+   */
+  public async syncCalendar(
+    calendarId: string,
+    options: { syncToken?: string; reset?: boolean } = {}
+  ): Promise<CalendarChanges> {
+    if (options.reset) {
+      this.syncStates.delete(calendarId);
+    }
+    const cached = this.syncStates.get(calendarId);
+    const token = options.reset ? undefined : options.syncToken ?? cached?.token;
+    // The cached state only applies when the caller continues from the same token
+    const state = cached && cached.token === token ? cached : undefined;
+
+    const ctag = await this.getCalendarCtag(calendarId);
+    if (state && ctag && state.ctag === ctag) {
+      return { calendarId, syncToken: state.token, initial: false, added: [], changed: [], deleted: [] };
+    }
+
+    let result;
+    try {
+      result = await this.requestSyncCollection(calendarId, token);
+    } catch (error) {
+      // The server forgets old tokens (valid-sync-token precondition); start over
+      if (token && error instanceof NextcloudRequestError && (error.status === 403 || error.status === 409)) {
+        console.warn(`Sync token for calendar ${calendarId} was rejected, doing a full sync`);
+        return this.syncCalendar(calendarId, { reset: true });
+      }
+      throw error;
+    }
+
+    const knownIds = new Set(state?.knownIds);
+    const changes: CalendarChanges = {
+      calendarId,
+      syncToken: result.token,
+      initial: !token,
+      added: [],
+      changed: [],
+      deleted: result.deleted,
+    };
+
+    for (const event of this.objectsToEvents(result.objects)) {
+      // Without the cached state for this token, new and modified events cannot be told apart
+      const isChange = state ? knownIds.has(event.id) : !!token;
+      (isChange ? changes.changed : changes.added).push({ ...event, calendarId });
+    }
+    result.objects.forEach(object => knownIds.add(object.id));
+    result.deleted.forEach(id => knownIds.delete(id));
+
+    this.syncStates.set(calendarId, { token: result.token, ctag, knownIds: [...knownIds] });
+    return changes;
+  }
+
+  private async getCalendarCtag(calendarId: string): Promise<string | undefined> {
+    const propfindXml = `<?xml version="1.0" encoding="utf-8" ?>
+<d:propfind xmlns:d="DAV:" xmlns:cs="http://calendarserver.org/ns/">
+  <d:prop>
+    <cs:getctag />
+  </d:prop>
+</d:propfind>`;
+
+    try {
+      const response = await this.makeStrictWebDAVRequest({
+        method: 'PROPFIND',
+        url: `/remote.php/dav/calendars/{username}/${calendarId}/`,
+        data: propfindXml,
+        headers: {
+          'Depth': '0',
+        },
+      });
+      return /<(?:\w+:)?getctag>([^<]+)<\/(?:\w+:)?getctag>/.exec(response.data)?.[1].trim();
+    } catch (error) {
+      console.warn(`Could not read ctag of calendar ${calendarId}:`, error);
+      return undefined;
+    }
+  }
+
+  private async requestSyncCollection(
+    calendarId: string,
+    token?: string
+  ): Promise<{ token: string; objects: CalendarObject[]; deleted: string[] }> {
+    const syncXml = `<?xml version="1.0" encoding="utf-8" ?>
+<d:sync-collection xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:sync-token>${token ? this.escapeXml(token) : ''}</d:sync-token>
+  <d:sync-level>1</d:sync-level>
+  <d:prop>
+    <d:getetag />
+    <c:calendar-data />
+  </d:prop>
+</d:sync-collection>`;
+
+    const response = await this.makeStrictWebDAVRequest({
+      method: 'REPORT',
+      url: `/remote.php/dav/calendars/{username}/${calendarId}/`,
+      data: syncXml,
+      headers: {
+        'Depth': '0',
+      },
+    });
+
+    const multistatus = this.getXmlChild(this.xmlParser.parse(response.data), 'multistatus');
+    const newToken = String(this.getXmlChild(multistatus, 'sync-token') || '');
+    if (!newToken) {
+      throw new Error(`Calendar ${calendarId} did not return a sync-token`);
+    }
+
+    // Removed members are reported with a response-level 404 status
+    const deleted = [this.getXmlChild(multistatus, 'response')].flat()
+      .filter(member => member && String(this.getXmlChild(member, 'status') || '').includes('404'))
+      .map(member => String(this.getXmlChild(member, 'href') || '').split('/').pop() || '')
+      .filter(id => id.endsWith('.ics'));
+
+    return { token: newToken, objects: this.parseCalendarObjects(response.data), deleted };
+  }
+
+  /**
+   * Users, groups and circles a calendar is shared with, from the ownCloud
+   * `invite` property
+   */
+  public async listCalendarShares(calendarId: string): Promise<CalendarShare[]> {
+    const propfindXml = `<?xml version="1.0" encoding="utf-8" ?>
+<d:propfind xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns">
+  <d:prop>
+    <oc:invite />
+  </d:prop>
+</d:propfind>`;
+
+    const response = await this.makeStrictWebDAVRequest({
+      method: 'PROPFIND',
+      url: `/remote.php/dav/calendars/{username}/${calendarId}/`,
+      data: propfindXml,
+      headers: {
+        'Depth': '0',
+      },
+    });
+
+    const multistatus = this.getXmlChild(this.xmlParser.parse(response.data), 'multistatus');
+    const responseNode = [this.getXmlChild(multistatus, 'response')].flat()[0];
+    const propstats = [this.getXmlChild(responseNode, 'propstat')].flat();
+    const invite = propstats
+      .map(propstat => this.getXmlChild(this.getXmlChild(propstat, 'prop'), 'invite'))
+      .find(Boolean);
+    const users = [this.getXmlChild(invite, 'user')].flat().filter(Boolean);
+
+    return users.map(user => {
+      const principal = String(this.getXmlChild(user, 'href') || '');
+      const { sharee, type } = this.parseSharePrincipal(principal);
+      const displayName = this.getXmlChild(user, 'common-name');
+      const access = this.getXmlChild(this.getXmlChild(user, 'access'), 'read-write') !== undefined ? 'read-write' : 'read';
+      return {
+        sharee,
+        type,
+        principal,
+        ...(displayName && { displayName: String(displayName) }),
+        access,
+        accepted: this.getXmlChild(user, 'invite-accepted') !== undefined,
+      } as CalendarShare;
+    });
+  }
+
+  /**
+   * Share a calendar with a user, group or circle (read-only unless
+   * `readWrite` is set). Sharing again changes the access level.
+   */
+  public async shareCalendar(
+    calendarId: string,
+    sharee: string,
+    options: { type?: ShareeType; readWrite?: boolean; summary?: string } = {}
+  ): Promise<CalendarShare[]> {
+    const principal = this.buildSharePrincipal(sharee, options.type || 'user');
+    const shareXml = `<?xml version="1.0" encoding="utf-8" ?>
+<oc:share xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns">
+  <oc:set>
+    <d:href>${this.escapeXml(principal)}</d:href>${options.summary ? `
+    <oc:summary>${this.escapeXml(options.summary)}</oc:summary>` : ''}${options.readWrite ? `
+    <oc:read-write />` : ''}
+  </oc:set>
+</oc:share>`;
+
+    await this.postCalendarXml(calendarId, shareXml);
+    return this.listCalendarShares(calendarId);
+  }
+
+  public async unshareCalendar(calendarId: string, sharee: string, type: ShareeType = 'user'): Promise<CalendarShare[]> {
+    const principal = this.buildSharePrincipal(sharee, type);
+    const unshareXml = `<?xml version="1.0" encoding="utf-8" ?>
+<oc:share xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns">
+  <oc:remove>
+    <d:href>${this.escapeXml(principal)}</d:href>
+  </oc:remove>
+</oc:share>`;
+
+    await this.postCalendarXml(calendarId, unshareXml);
+    return this.listCalendarShares(calendarId);
+  }
+
+  /**
+   * Publish a read-only public link to a calendar and return its URLs
+   */
+  public async publishCalendar(calendarId: string): Promise<CalendarPublication> {
+    await this.postCalendarXml(calendarId, `<?xml version="1.0" encoding="utf-8" ?>
+<cs:publish-calendar xmlns:d="DAV:" xmlns:cs="http://calendarserver.org/ns/" />`);
+    return this.getCalendarPublication(calendarId);
+  }
+
+  public async unpublishCalendar(calendarId: string): Promise<CalendarPublication> {
+    await this.postCalendarXml(calendarId, `<?xml version="1.0" encoding="utf-8" ?>
+<cs:unpublish-calendar xmlns:d="DAV:" xmlns:cs="http://calendarserver.org/ns/" />`);
+    return { published: false };
+  }
+
+  /**
+   * Current public link of a calendar, from the `publish-url` property
+   */
+  public async getCalendarPublication(calendarId: string): Promise<CalendarPublication> {
+    const propfindXml = `<?xml version="1.0" encoding="utf-8" ?>
+<d:propfind xmlns:d="DAV:" xmlns:cs="http://calendarserver.org/ns/">
+  <d:prop>
+    <cs:publish-url />
+  </d:prop>
+</d:propfind>`;
+
+    const response = await this.makeStrictWebDAVRequest({
+      method: 'PROPFIND',
+      url: `/remote.php/dav/calendars/{username}/${calendarId}/`,
+      data: propfindXml,
+      headers: {
+        'Depth': '0',
+      },
+    });
+
+    const match = /<(?:\w+:)?publish-url>\s*<(?:\w+:)?href>([^<]+)<\/(?:\w+:)?href>/.exec(response.data);
+    if (!match) {
+      return { published: false };
+    }
+
+    const publicUrl = this.decodeHtmlEntities(match[1].trim());
+    const token = publicUrl.replace(/\/$/, '').split('/').pop();
+    const baseUrl = (this.client.defaults.baseURL || '').replace(/\/$/, '');
+    return {
+      published: true,
+      publicUrl,
+      ...(token && { webUrl: `${baseUrl}/apps/calendar/p/${token}` }),
+    };
+  }
+
+  private async postCalendarXml(calendarId: string, xml: string): Promise<void> {
+    await this.makeStrictWebDAVRequest({
+      method: 'POST',
+      url: `/remote.php/dav/calendars/{username}/${calendarId}/`,
+      data: xml,
+      headers: {
+        'Depth': '0',
+      },
+    });
+  }
+
+  private buildSharePrincipal(sharee: string, type: ShareeType): string {
+    const collection = type === 'group' ? 'groups' : type === 'circle' ? 'circles' : 'users';
+    return `principal:principals/${collection}/${encodeURIComponent(sharee)}`;
+  }
+
+  private parseSharePrincipal(principal: string): { sharee: string; type: ShareeType } {
+    const match = /principals\/(users|groups|circles)\/([^/]+)\/?$/.exec(principal);
+    if (!match) {
+      return { sharee: principal, type: 'user' };
+    }
+    const type: ShareeType = match[1] === 'groups' ? 'group' : match[1] === 'circles' ? 'circle' : 'user';
+    return { sharee: decodeURIComponent(match[2]), type };
+  }
+
+  /**
+   * Export a calendar as one iCalendar file. VTIMEZONEs shared by several
+   * objects are included once. With a date range only events overlapping it
+   * are exported; without one, every object (events and tasks) is.
+   */
+  public async exportCalendar(calendarId: string, start?: string, end?: string): Promise<string> {
+    let objects: CalendarObject[];
+    if (start || end) {
+      const rangeStart = start ? toICalDateTimeUTC(start) : undefined;
+      const rangeEnd = end ? toICalDateTimeUTC(end) : undefined;
+      if ((start && !rangeStart) || (end && !rangeEnd)) {
+        throw new Error(`Invalid date range: ${start || ''} - ${end || ''}`);
+      }
+      const response = await this.makeStrictWebDAVRequest({
+        method: 'REPORT',
+        url: `/remote.php/dav/calendars/{username}/${calendarId}/`,
+        data: this.buildCalendarQueryXml(rangeStart, rangeEnd),
+        headers: {
+          'Depth': '1',
+          ...WEBCAL_CACHING_HEADERS,
+        },
+      });
+      objects = this.parseCalendarObjects(response.data);
+    } else {
+      objects = await this.fetchCalendarObjects(calendarId);
+    }
+
+    const timezones = new Map<string, ICalComponent>();
+    const components: ICalComponent[] = [];
+    for (const object of objects) {
+      for (const vcalendar of parseICalendarData(object.data).filter(component => component.name === 'VCALENDAR')) {
+        for (const component of vcalendar.components) {
+          if (component.name === 'VTIMEZONE') {
+            const tzid = getICalProperty(component, 'TZID')?.value;
+            if (tzid && !timezones.has(tzid)) {
+              timezones.set(tzid, component);
+            }
+          } else {
+            components.push(component);
+          }
+        }
+      }
+    }
+
+    const calendar = (await this.listCalendars()).find(candidate => candidate.id === calendarId);
+    return serializeICalComponent({
+      name: 'VCALENDAR',
+      properties: [
+        { name: 'VERSION', params: {}, value: '2.0' },
+        { name: 'PRODID', params: {}, value: '-//Nextcloud MCP//EN' },
+        { name: 'CALSCALE', params: {}, value: 'GREGORIAN' },
+        ...(calendar?.displayName ? [{ name: 'X-WR-CALNAME', params: {}, value: escapeICalText(calendar.displayName) }] : []),
+      ],
+      components: [...timezones.values(), ...components],
+    });
+  }
+
+  /**
+   * Import an iCalendar file into a calendar. Components are grouped by UID
+   * into one calendar object each (with the VTIMEZONEs they reference).
+   * Objects whose UID already exists are updated when their content differs,
+   * or skipped when `skipExisting` is set or nothing changed.
+   */
+  public async importCalendar(
+    calendarId: string,
+    icsData: string,
+    options: { skipExisting?: boolean } = {}
+  ): Promise<CalendarImportResult> {
+    await this.assertWritableCalendar(calendarId);
+    const roots = parseICalendarData(icsData).filter(component => component.name === 'VCALENDAR');
+    if (roots.length === 0) {
+      throw new Error('No VCALENDAR found in the iCalendar data');
+    }
+
+    const timezones = new Map<string, ICalComponent>();
+    const groups = new Map<string, ICalComponent[]>();
+    for (const root of roots) {
+      for (const component of root.components) {
+        if (component.name === 'VTIMEZONE') {
+          const tzid = getICalProperty(component, 'TZID')?.value;
+          if (tzid && !timezones.has(tzid)) {
+            timezones.set(tzid, component);
+          }
+        } else if (['VEVENT', 'VTODO', 'VJOURNAL'].includes(component.name)) {
+          // Components without UID are invalid per RFC 5545; give them one so they are not lost
+          let uid = getICalProperty(component, 'UID')?.value;
+          if (!uid) {
+            uid = randomUUID();
+            component.properties.unshift({ name: 'UID', params: {}, value: uid });
+          }
+          groups.set(uid, [...(groups.get(uid) || []), component]);
+        }
+      }
+    }
+
+    const existing = new Map<string, CalendarObject>();
+    for (const object of await this.fetchCalendarObjects(calendarId)) {
+      for (const component of parseICalendarData(object.data).flatMap(root => root.components)) {
+        const uid = getICalProperty(component, 'UID')?.value;
+        if (uid) {
+          existing.set(uid, object);
+        }
+      }
+    }
+
+    const result: CalendarImportResult = { created: 0, updated: 0, skipped: 0, failed: 0, errors: [] };
+    for (const [uid, components] of groups) {
+      const tzids = new Set(components.flatMap(component => this.getReferencedTimezones(component)));
+      const icalendar = serializeICalComponent({
+        name: 'VCALENDAR',
+        properties: [
+          { name: 'VERSION', params: {}, value: '2.0' },
+          { name: 'PRODID', params: {}, value: '-//Nextcloud MCP//EN' },
+        ],
+        components: [
+          ...[...tzids].map(tzid => timezones.get(tzid)).filter((vtimezone): vtimezone is ICalComponent => !!vtimezone),
+          ...components,
+        ],
+      });
+
+      const current = existing.get(uid);
+      try {
+        if (!current) {
+          await this.putNewCalendarObject(calendarId, this.getResourceName(uid), uid, icalendar);
+          result.created++;
+        } else if (options.skipExisting || this.isSameCalendarData(current.data, icalendar)) {
+          result.skipped++;
+        } else {
+          await this.makeStrictWebDAVRequest({
+            method: 'PUT',
+            url: `/remote.php/dav/calendars/{username}/${calendarId}/${current.id}`,
+            data: icalendar,
+            headers: {
+              'Content-Type': 'text/calendar; charset=utf-8',
+              ...(current.etag && { 'If-Match': current.etag }),
+            },
+          });
+          result.updated++;
+        }
+      } catch (error) {
+        console.warn(`Importing ${uid} into calendar ${calendarId} failed:`, error);
+        result.failed++;
+        result.errors.push({ uid, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * All calendar objects of a collection, via PROPFIND with calendar-data
+   */
+  protected async fetchCalendarObjects(calendarId: string): Promise<CalendarObject[]> {
+    const propfindXml = `<?xml version="1.0" encoding="utf-8" ?>
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>
+    <d:getetag />
+    <c:calendar-data />
+  </d:prop>
+</d:propfind>`;
+
+    const response = await this.makeStrictWebDAVRequest({
+      method: 'PROPFIND',
+      url: `/remote.php/dav/calendars/{username}/${calendarId}/`,
+      data: propfindXml,
+      headers: {
+        'Depth': '1',
+      },
+    });
+    return this.parseCalendarObjects(response.data);
+  }
+
+  /**
+   * TZIDs used by a component and its sub-components
+   */
+  private getReferencedTimezones(component: ICalComponent): string[] {
+    return [
+      ...component.properties.flatMap(property => property.params.TZID || []),
+      ...component.components.flatMap(child => this.getReferencedTimezones(child)),
+    ];
+  }
+
+  /**
+   * Compare two calendar objects ignoring DTSTAMP, PRODID and line folding
+   */
+  private isSameCalendarData(a: string, b: string): boolean {
+    const normalize = (data: string) => unfoldLines(data)
+      .filter(line => !/^(DTSTAMP|PRODID)[;:]/i.test(line))
+      .join('\n');
+    return normalize(a) === normalize(b);
+  }
+
+  /**
+   * Create an event. The resource name is derived from the event's UID (a new
+   * RFC 4122 UUID unless one is supplied), and the PUT only succeeds if no
+   * object with that name exists yet.
+   */
+  public async createEvent(
+    calendarId: string,
+    event: Partial<Event>
+  ): Promise<Event> {
+    const uid = event.uid || randomUUID();
+    const eventId = this.getResourceName(uid);
+    const organizer = event.organizer || (event.attendees?.length ? await this.getDefaultOrganizer() : undefined);
+
+    // Create iCalendar content
+    const icalendar = this.createICalendar({ ...event, uid, ...(organizer && { organizer }) });
+
+    const etag = await this.putNewCalendarObject(calendarId, eventId, uid, icalendar);
+
+    return {
+      id: eventId,
+      calendarId,
+      ...event,
+      uid,
+      ...(organizer && { organizer }),
+      uri: eventId,
+      etag,
+    };
+  }
+
+  /**
+   * Find the event with the given UID, searching one calendar or all of them.
+   * Uses a calendar-query REPORT on the UID property and falls back to a full
+   * listing for servers that reject the filter.
+   */
+  public async findEventByUid(uid: string, calendarId?: string): Promise<Event | undefined> {
+    const calendarIds = calendarId
+      ? [calendarId]
+      : (await this.listCalendars()).map(calendar => calendar.id);
+
+    for (const id of calendarIds) {
+      let events: Event[];
+      try {
+        const response = await this.makeStrictWebDAVRequest({
+          method: 'REPORT',
+          url: `/remote.php/dav/calendars/{username}/${id}/`,
+          data: this.buildCalendarQueryXml(undefined, undefined, uid),
+          headers: {
+            'Depth': '1',
+            ...WEBCAL_CACHING_HEADERS,
+          },
+        });
+        events = this.parseEventsResponse(response.data);
+      } catch (error) {
+        console.warn(`UID calendar-query failed for calendar ${id}, falling back to a full listing:`, error);
+        events = await this.listEvents(id);
+      }
+
+      const match = events.find(event => event.uid === uid && !event.recurrenceId);
+      if (match) {
+        return { ...match, calendarId: id };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resource name for a UID, keeping it URL-safe
+   */
+  protected getResourceName(uid: string): string {
+    return `${uid.replace(/[^A-Za-z0-9._@-]/g, '-')}.ics`;
+  }
+
+  /**
+   * PUT a new calendar object, refusing to overwrite an existing one.
+   * Returns the new etag when the server reports it.
+   */
+  protected async putNewCalendarObject(
+    calendarId: string,
+    objectId: string,
+    uid: string,
+    icalendar: string
+  ): Promise<string | undefined> {
+    await this.assertWritableCalendar(calendarId);
+    try {
+      const response = await this.makeStrictWebDAVRequest({
+        method: 'PUT',
+        url: `/remote.php/dav/calendars/{username}/${calendarId}/${objectId}`,
+        data: icalendar,
+        headers: {
+          'Content-Type': 'text/calendar; charset=utf-8',
+          'If-None-Match': '*',
+        },
+      });
+      return response.headers['etag'] || undefined;
+    } catch (error) {
+      // The UID may also exist under another resource name, which Sabre
+      // reports as a 403 with a no-uid-conflict precondition
+      const uidConflict = error instanceof NextcloudRequestError && (
+        error.status === 412 || error.status === 409 ||
+        (error.status === 403 && String(error.data ?? '').includes('no-uid-conflict'))
+      );
+      if (error instanceof NextcloudRequestError && uidConflict) {
+        throw new NextcloudRequestError(
+          `An object with UID ${uid} already exists in calendar ${calendarId}. Use a different UID or update the existing one instead.`,
+          error.status,
+          error.data
+        );
+      }
+      throw error;
+    }
+  }
+
+  public async listEvents(
+    calendarId: string,
+    start?: string,
+    end?: string
+  ): Promise<Event[]> {
+    const rangeStart = start ? toICalDateTimeUTC(start) : undefined;
+    const rangeEnd = end ? toICalDateTimeUTC(end) : undefined;
+
+    if (start && !rangeStart) {
+      throw new Error(`Invalid start date: ${start}`);
+    }
+    if (end && !rangeEnd) {
+      throw new Error(`Invalid end date: ${end}`);
+    }
+
+    try {
+      // Let the server do the filtering with a CalDAV calendar-query REPORT
+      const response = await this.makeStrictWebDAVRequest({
+        method: 'REPORT',
+        url: `/remote.php/dav/calendars/{username}/${calendarId}/`,
+        data: this.buildCalendarQueryXml(rangeStart, rangeEnd),
+        headers: {
+          'Depth': '1',
+        },
+      });
+
+      return this.applyRecurrence(this.parseEventsResponse(response.data), rangeStart, rangeEnd);
+    } catch (error) {
+      console.warn(`calendar-query REPORT failed for calendar ${calendarId}, falling back to PROPFIND:`, error);
+    }
+
+    const propfindXml = `<?xml version="1.0" encoding="utf-8" ?>
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>
+    <d:getetag />
+    <c:calendar-data />
+  </d:prop>
+</d:propfind>`;
+
+    const response = await this.makeWebDAVRequest({
+      method: 'PROPFIND',
+      url: `/remote.php/dav/calendars/{username}/${calendarId}/`,
+      data: propfindXml,
+      headers: WEBCAL_CACHING_HEADERS,
+    });
+
+    const events = this.parseEventsResponse(response);
+    return this.applyRecurrence(events, rangeStart, rangeEnd);
+  }
+
+  public async getEvent(
+    calendarId: string,
+    eventId: string
+  ): Promise<Event> {
+    const response = await this.makeStrictWebDAVRequest({
+      method: 'GET',
+      url: `/remote.php/dav/calendars/{username}/${calendarId}/${eventId}`,
+      headers: WEBCAL_CACHING_HEADERS,
+    });
+
+    const event = this.parseICalendar(response.data);
+    return { ...event, id: eventId, calendarId };
+  }
+
+  /**
+   * Update an event in place. The stored calendar object is fetched and only
+   * the supplied fields are patched, so attendees, alarms and properties added
+   * by other clients survive. The PUT is conditional on the object's etag
+   * (or the one passed in), so concurrent edits fail instead of being lost.
+   */
+  public async updateEvent(
+    calendarId: string,
+    eventId: string,
+    event: Partial<Event>
+  ): Promise<Event> {
+    return this.modifyCalendarObject(calendarId, eventId, event.etag, async (vcalendar, vevent) => {
+      // Inviting people makes the user the organizer unless one is already set
+      const organizer = event.organizer || (
+        event.attendees?.length && !getICalProperty(vevent, 'ORGANIZER') ? await this.getDefaultOrganizer() : undefined
+      );
+      const before = this.getSignificantState(vevent);
+      this.patchEventComponent(vcalendar, vevent, { ...event, ...(organizer && { organizer }) });
+
+      // Only changes attendees have to act on are revisions (RFC 5546 2.1.4)
+      if (this.getSignificantState(vevent) !== before) {
+        const sequence = parseInt(getICalProperty(vevent, 'SEQUENCE')?.value || '0', 10) || 0;
+        setICalProperty(vevent, 'SEQUENCE', String(sequence + 1));
+      }
+    });
+  }
+
+  /**
+   * Timing, recurrence, location and the set of attendee addresses, as one
+   * comparable string. Attendee parameters such as PARTSTAT are left out.
+   */
+  private getSignificantState(vevent: ICalComponent): string {
+    const timing = vevent.properties
+      .filter(property => SIGNIFICANT_PROPERTIES.includes(property.name))
+      .map(property => `${property.name};${JSON.stringify(property.params)}:${property.value}`)
+      .sort();
+    const attendees = vevent.properties
+      .filter(property => property.name === 'ATTENDEE')
+      .map(property => this.getCalendarAddressEmail(property.value).toLowerCase())
+      .sort();
+    return JSON.stringify([timing, attendees]);
+  }
+
+  /**
+   * Reply to an invitation by setting the user's PARTSTAT on the event.
+   * Nextcloud's scheduling plugin then sends the iTIP REPLY to the organizer.
+   */
+  public async respondToInvitation(
+    calendarId: string,
+    eventId: string,
+    response: ParticipationStatus,
+    comment?: string
+  ): Promise<Event> {
+    const addresses = await this.getUserAddresses();
+
+    return this.modifyCalendarObject(calendarId, eventId, undefined, (vcalendar, vevent) => {
+      const attendee = vevent.properties.find(
+        property => property.name === 'ATTENDEE' && addresses.includes(this.getCalendarAddressEmail(property.value).toLowerCase())
+      );
+      if (!attendee) {
+        throw new Error(`You are not an attendee of event ${eventId} in calendar ${calendarId}`);
+      }
+
+      attendee.params.PARTSTAT = [response];
+
+      if (comment !== undefined) {
+        setICalProperty(vevent, 'COMMENT', escapeICalText(comment));
+      }
+    });
+  }
+
+  /**
+   * Busy periods of the user and the given attendees between two instants.
+   * The user's own calendars are aggregated locally; other attendees are
+   * queried with a VFREEBUSY request to the CalDAV scheduling outbox.
+   */
+  public async getFreeBusy(attendees: string[], start: string, end: string): Promise<FreeBusyResult[]> {
+    const rangeStart = parseICalDateTime(start);
+    const rangeEnd = parseICalDateTime(end);
+    if (!rangeStart) {
+      throw new Error(`Invalid start date: ${start}`);
+    }
+    if (!rangeEnd || rangeEnd <= rangeStart) {
+      throw new Error(`Invalid end date: ${end}`);
+    }
+
+    const userAddresses = await this.getUserAddresses();
+    const others = [...new Set(attendees.map(attendee => this.getCalendarAddressEmail(attendee).toLowerCase()))]
+      .filter(attendee => !userAddresses.includes(attendee));
+
+    // The user's own busy time needs no e-mail address; only asking the
+    // scheduling outbox about others does
+    const results: FreeBusyResult[] = [
+      { attendee: userAddresses[0] || this.username, busy: await this.getOwnBusyPeriods(rangeStart, rangeEnd) },
+    ];
+    if (others.length > 0) {
+      const organizer = await this.getDefaultOrganizer();
+      results.push(...await this.queryFreeBusy(organizer, others, rangeStart, rangeEnd));
+    }
+    return results;
+  }
+
+  /**
+   * Suggest meeting slots when the user and all attendees are free, within
+   * working hours and at least `durationMinutes` long. Attendees whose
+   * free/busy information is unavailable are reported but not taken into account.
+   */
+  public async findMeetingSlots(options: {
+    attendees: string[];
+    start: string;
+    end: string;
+    durationMinutes: number;
+    workingHours?: Partial<WorkingHours>;
+    maxSlots?: number;
+  }): Promise<MeetingSlotSuggestion> {
+    const workingHours: WorkingHours = { ...DEFAULT_WORKING_HOURS, ...options.workingHours };
+    if (!isValidTimeZone(workingHours.timeZone)) {
+      throw new Error(`Unknown timezone: ${workingHours.timeZone}. Use an IANA name such as "Europe/Berlin".`);
+    }
+
+    const rangeStart = parseICalDateTime(options.start);
+    const rangeEnd = parseICalDateTime(options.end);
+    if (!rangeStart) {
+      throw new Error(`Invalid start date: ${options.start}`);
+    }
+    if (!rangeEnd || rangeEnd <= rangeStart) {
+      throw new Error(`Invalid end date: ${options.end}`);
+    }
+
+    const freeBusy = await this.getFreeBusy(options.attendees, options.start, options.end);
+    const busy = freeBusy.flatMap(result => result.busy.map(period => ({
+      start: new Date(period.start),
+      end: new Date(period.end),
+    })));
+
+    const slots = findFreeSlots({
+      rangeStart,
+      rangeEnd,
+      duration: options.durationMinutes * 60 * 1000,
+      busy,
+      workingHours,
+      maxSlots: options.maxSlots,
+    });
+
+    return {
+      freeBusy,
+      slots: slots.map(slot => ({ start: slot.start.toISOString(), end: slot.end.toISOString() })),
+    };
+  }
+
+  /**
+   * Agenda across all calendars (or the selected ones): occurrences in the
+   * range, recurrences expanded, grouped by day in the given timezone.
+   * Overlapping events that block time are reported as conflicts; calendars
+   * that fail to load are listed in `errors` instead of failing the agenda.
+   */
+  public async getAgenda(options: {
+    start: string;
+    end: string;
+    calendarIds?: string[];
+    timezone?: string;
+  }): Promise<Agenda> {
+    const timeZone = options.timezone || 'UTC';
+    if (!isValidTimeZone(timeZone)) {
+      throw new Error(`Unknown timezone: ${timeZone}. Use an IANA name such as "Europe/Berlin".`);
+    }
+
+    const rangeStart = this.parseRangeBoundary(options.start, timeZone);
+    const rangeEnd = this.parseRangeBoundary(options.end, timeZone);
+    if (!rangeStart) {
+      throw new Error(`Invalid start date: ${options.start}`);
+    }
+    if (!rangeEnd) {
+      throw new Error(`Invalid end date: ${options.end}`);
+    }
+    if (rangeEnd <= rangeStart) {
+      throw new Error('The end of the agenda range must be after its start');
+    }
+
+    const calendars = (await this.listCalendars())
+      .filter(calendar => !calendar.components || calendar.components.includes('VEVENT'));
+    const selected = options.calendarIds?.length
+      ? calendars.filter(calendar => options.calendarIds!.includes(calendar.id))
+      : calendars;
+    const errors = (options.calendarIds || [])
+      .filter(id => !calendars.some(calendar => calendar.id === id))
+      .map(id => ({ calendarId: id, error: 'Calendar not found or does not hold events' }));
+
+    // Only needed to skip declined invitations when marking blocked time
+    const userAddresses = await this.getUserAddresses().catch(error => {
+      console.warn('Could not determine your calendar addresses for the agenda:', error);
+      return [] as string[];
+    });
+    const results = await Promise.all(selected.map(async calendar => {
+      try {
+        return { calendar, events: await this.listEvents(calendar.id, rangeStart.toISOString(), rangeEnd.toISOString()) };
+      } catch (error) {
+        console.warn(`Loading calendar ${calendar.id} for the agenda failed:`, error);
+        errors.push({ calendarId: calendar.id, error: error instanceof Error ? error.message : String(error) });
+        return { calendar, events: [] as Event[] };
+      }
+    }));
+
+    const entries: (TimeInterval & { item: AgendaItem; blocking: boolean })[] = [];
+    for (const { calendar, events } of results) {
+      for (const event of events) {
+        const interval = this.getAgendaInterval(event, timeZone);
+        const isInstant = interval && interval.end.getTime() === interval.start.getTime();
+        if (!interval || interval.start >= rangeEnd || (isInstant ? interval.start < rangeStart : interval.end <= rangeStart)) {
+          continue;
+        }
+
+        entries.push({
+          ...interval,
+          blocking: !event.allDay && this.blocksTime(event, userAddresses),
+          item: {
+            time: '',
+            summary: event.summary || '(no title)',
+            calendarId: calendar.id,
+            calendarName: calendar.displayName,
+            eventId: event.id,
+            allDay: !!event.allDay,
+            ...(event.location && { location: event.location }),
+            ...(event.status && { status: event.status }),
+          },
+        });
+      }
+    }
+
+    const conflicts: AgendaConflict[] = findOverlaps(entries.filter(entry => entry.blocking)).map(overlap => {
+      overlap.first.item.conflict = true;
+      overlap.second.item.conflict = true;
+      return {
+        start: overlap.start.toISOString(),
+        end: overlap.end.toISOString(),
+        events: [overlap.first, overlap.second].map(entry => ({
+          calendarId: entry.item.calendarId,
+          eventId: entry.item.eventId,
+          summary: entry.item.summary,
+          start: entry.start.toISOString(),
+          end: entry.end.toISOString(),
+        })),
+      };
+    });
+
+    return {
+      start: rangeStart.toISOString(),
+      end: rangeEnd.toISOString(),
+      timeZone,
+      totalEvents: entries.length,
+      days: this.groupAgendaByDay(entries, rangeStart, rangeEnd, timeZone),
+      conflicts,
+      ...(errors.length && { errors }),
+    };
+  }
+
+  /**
+   * Range boundary: values without an offset are wall-clock times in the
+   * given timezone (a plain date means its midnight)
+   */
+  private parseRangeBoundary(value: string, timezone: string): Date | undefined {
+    const wall = parseWallClock(value);
+    return wall ? this.wallToUtc(wall, timezone) : parseICalDateTime(value);
+  }
+
+  /**
+   * Like getEventInterval, but all-day events span their dates in the agenda's
+   * timezone rather than in UTC
+   */
+  private getAgendaInterval(event: Event, timezone: string): TimeInterval | undefined {
+    const startDate = event.allDay && event.dtstart ? parseWallClock(event.dtstart) : undefined;
+    if (!startDate) {
+      return this.getEventInterval(event);
+    }
+
+    const endDate = (event.dtend && parseWallClock(event.dtend)) || new Date(startDate.getTime() + 24 * 60 * 60 * 1000);
+    return { start: zonedTimeToUtc(startDate, timezone), end: zonedTimeToUtc(endDate, timezone) };
+  }
+
+  /**
+   * Split agenda entries into per-day items; events spanning midnight appear
+   * on every day they cover, with the times clipped to that day
+   */
+  private groupAgendaByDay(
+    entries: (TimeInterval & { item: AgendaItem })[],
+    rangeStart: Date,
+    rangeEnd: Date,
+    timezone: string
+  ): AgendaDay[] {
+    const dayMs = 24 * 60 * 60 * 1000;
+    const formatTime = (instant: Date) => utcToZonedTime(instant, timezone).toISOString().substring(11, 16);
+    const days = new Map<string, { weekday: string; items: { sortKey: number; item: AgendaItem }[] }>();
+
+    for (const entry of entries) {
+      const first = utcToZonedTime(entry.start > rangeStart ? entry.start : rangeStart, timezone);
+      let day = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), first.getUTCDate()));
+      const until = entry.end < rangeEnd ? entry.end : rangeEnd;
+
+      for (;;) {
+        const dayStart = zonedTimeToUtc(day, timezone);
+        const dayEnd = zonedTimeToUtc(new Date(day.getTime() + dayMs), timezone);
+        const segmentStart = entry.start > dayStart ? entry.start : dayStart;
+        const segmentEnd = entry.end < dayEnd ? entry.end : dayEnd;
+
+        let time: string;
+        if (entry.item.allDay) {
+          time = 'all day';
+        } else if (entry.end.getTime() === entry.start.getTime()) {
+          time = formatTime(entry.start);
+        } else {
+          time = `${formatTime(segmentStart)}-${segmentEnd.getTime() === dayEnd.getTime() ? '24:00' : formatTime(segmentEnd)}`;
+        }
+
+        const date = day.toISOString().substring(0, 10);
+        if (!days.has(date)) {
+          days.set(date, { weekday: WEEKDAY_NAMES[day.getUTCDay()], items: [] });
+        }
+        days.get(date)!.items.push({
+          sortKey: entry.item.allDay ? -Infinity : segmentStart.getTime(),
+          item: { ...entry.item, time },
+        });
+
+        if (dayEnd >= until) {
+          break;
+        }
+        day = new Date(day.getTime() + dayMs);
+      }
+    }
+
+    return [...days.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, day]) => ({
+        date,
+        weekday: day.weekday,
+        items: day.items.sort((a, b) => a.sortKey - b.sortKey).map(({ item }) => item),
+      }));
+  }
+
+  /**
+   * Whether an event makes the user busy. Transparent and cancelled events,
+   * and invitations the user declined, do not block time.
+   */
+  private blocksTime(event: Event, userAddresses: string[]): boolean {
+    const declined = event.attendees?.some(
+      attendee => userAddresses.includes(attendee.email.toLowerCase()) && attendee.partstat === 'DECLINED'
+    );
+    return event.transparency !== 'TRANSPARENT' && event.status !== 'CANCELLED' && !declined;
+  }
+
+  /**
+   * Busy periods from the user's own calendars, counting only events that
+   * block time
+   */
+  private async getOwnBusyPeriods(rangeStart: Date, rangeEnd: Date): Promise<BusyPeriod[]> {
+    const userAddresses = await this.getUserAddresses();
+    // Subscriptions and the contact birthday calendar show other people's
+    // dates, not the user's commitments
+    const calendars = (await this.listCalendars())
+      .filter(calendar => !calendar.subscribed && calendar.id !== BIRTHDAY_CALENDAR_ID);
+    const intervals: TimeInterval[] = [];
+
+    for (const calendar of calendars) {
+      let events: Event[];
+      try {
+        events = await this.listEvents(calendar.id, rangeStart.toISOString(), rangeEnd.toISOString());
+      } catch (error) {
+        console.warn(`Loading calendar ${calendar.id} for free/busy failed:`, error);
+        continue;
+      }
+      for (const event of events) {
+        // All-day events (holidays, reminders, trips) do not block meeting times
+        if (event.allDay || !this.blocksTime(event, userAddresses)) {
+          continue;
+        }
+
+        const interval = this.getEventInterval(event);
+        if (interval && interval.end > rangeStart && interval.start < rangeEnd) {
+          intervals.push(interval);
+        }
+      }
+    }
+
+    return mergeIntervals(intervals).map(interval => ({
+      start: interval.start.toISOString(),
+      end: interval.end.toISOString(),
+      type: 'BUSY',
+    }));
+  }
+
+  /**
+   * POST a VFREEBUSY request to the scheduling outbox (RFC 6638) and parse
+   * the per-recipient schedule-response
+   */
+  private async queryFreeBusy(
+    organizer: Organizer,
+    attendees: string[],
+    rangeStart: Date,
+    rangeEnd: Date
+  ): Promise<FreeBusyResult[]> {
+    const vfreebusy: ICalComponent = {
+      name: 'VFREEBUSY',
+      properties: [
+        { name: 'UID', params: {}, value: randomUUID() },
+        { name: 'DTSTAMP', params: {}, value: formatICalDateTimeUTC(new Date()) },
+        { name: 'DTSTART', params: {}, value: formatICalDateTimeUTC(rangeStart) },
+        { name: 'DTEND', params: {}, value: formatICalDateTimeUTC(rangeEnd) },
+        { name: 'ORGANIZER', params: {}, value: `mailto:${organizer.email}` },
+        ...attendees.map(attendee => ({ name: 'ATTENDEE', params: {}, value: `mailto:${attendee}` })),
+      ],
+      components: [],
+    };
+    const request = serializeICalComponent({
+      name: 'VCALENDAR',
+      properties: [
+        { name: 'VERSION', params: {}, value: '2.0' },
+        { name: 'PRODID', params: {}, value: '-//Nextcloud MCP//EN' },
+        { name: 'METHOD', params: {}, value: 'REQUEST' },
+      ],
+      components: [vfreebusy],
+    });
+
+    try {
+      const response = await this.makeStrictWebDAVRequest({
+        method: 'POST',
+        url: '/remote.php/dav/calendars/{username}/outbox/',
+        data: request,
+        headers: {
+          'Content-Type': 'text/calendar; charset=utf-8; method=REQUEST',
+          'Depth': '0',
+        },
+      });
+      return this.parseScheduleResponse(response.data, attendees);
+    } catch (error) {
+      console.warn('Free/busy request to the scheduling outbox failed:', error);
+      const message = error instanceof Error ? error.message : String(error);
+      return attendees.map(attendee => ({ attendee, busy: [], error: message }));
+    }
+  }
+
+  private parseScheduleResponse(xmlResponse: string, attendees: string[]): FreeBusyResult[] {
+    const parsed = this.xmlParser.parse(xmlResponse);
+    const scheduleResponse = this.getXmlChild(parsed, 'schedule-response');
+    const responses = this.getXmlChild(scheduleResponse, 'response');
+    const responseArray = responses ? (Array.isArray(responses) ? responses : [responses]) : [];
+
+    const results = new Map<string, FreeBusyResult>();
+    for (const response of responseArray) {
+      const recipient = this.getXmlChild(response, 'recipient');
+      const href = this.getXmlChild(recipient, 'href') ?? recipient;
+      const attendee = this.getCalendarAddressEmail(String(href || '')).toLowerCase();
+      const status = String(this.getXmlChild(response, 'request-status') || '');
+      const calendarData = this.getXmlChild(response, 'calendar-data');
+
+      const result: FreeBusyResult = { attendee, busy: [], ...(status && { status }) };
+      if (calendarData && status.startsWith('2.')) {
+        const components = parseICalendarData(this.decodeHtmlEntities(String(calendarData)));
+        for (const vfreebusy of findICalComponents(components, 'VFREEBUSY')) {
+          result.busy.push(...this.parseFreeBusyPeriods(vfreebusy));
+        }
+      } else {
+        result.error = `Free/busy information unavailable${status ? ` (${status})` : ''}`;
+      }
+      results.set(attendee, result);
+    }
+
+    return attendees.map(attendee => results.get(attendee) || {
+      attendee,
+      busy: [],
+      error: 'No free/busy response from the server',
+    });
+  }
+
+  /**
+   * Busy periods of a VFREEBUSY reply. FREEBUSY values are lists of
+   * "start/end" or "start/duration" periods; FREE periods are skipped.
+   */
+  private parseFreeBusyPeriods(vfreebusy: ICalComponent): BusyPeriod[] {
+    const periods: BusyPeriod[] = [];
+
+    for (const property of getICalProperties(vfreebusy, 'FREEBUSY')) {
+      const type = (getICalParam(property, 'FBTYPE') || 'BUSY').toUpperCase();
+      if (type === 'FREE') {
+        continue;
+      }
+
+      for (const period of splitICalList(property.value)) {
+        const [startValue, endValue] = period.split('/');
+        const start = parseICalDateTime(startValue || '');
+        const duration = endValue && /^[+-]?P/.test(endValue) ? parseICalDuration(endValue) : undefined;
+        const end = duration !== undefined
+          ? start && new Date(start.getTime() + duration)
+          : parseICalDateTime(endValue || '');
+        if (start && end) {
+          periods.push({ start: start.toISOString(), end: end.toISOString(), type });
+        }
+      }
+    }
+
+    return periods;
+  }
+
+  /**
+   * Child of a parsed XML node by local name, whatever namespace prefix is used
+   */
+  protected getXmlChild(node: any, name: string): any {
+    if (!node || typeof node !== 'object') {
+      return undefined;
+    }
+    const key = Object.keys(node).find(candidate => candidate === name || candidate.endsWith(`:${name}`));
+    return key ? node[key] : undefined;
+  }
+
+  /**
+   * Fetch a calendar object, let `modify` change its master VEVENT and write it
+   * back with If-Match, reporting a concurrent modification on 412
+   */
+  private async modifyCalendarObject(
+    calendarId: string,
+    eventId: string,
+    etag: string | undefined,
+    modify: (vcalendar: ICalComponent, vevent: ICalComponent) => void | Promise<void>
+  ): Promise<Event> {
+    const result = await this.patchCalendarObject(calendarId, eventId, 'VEVENT', etag, modify);
+    return {
+      ...this.parseICalendar(result.icalendar),
+      id: eventId,
+      calendarId,
+      etag: result.etag,
+    };
+  }
+
+  /**
+   * Fetch a calendar object, let `modify` change its master component (the
+   * one without RECURRENCE-ID), refresh DTSTAMP/LAST-MODIFIED and PUT it back
+   * with If-Match so that concurrent edits fail with a clear error
+   */
+  protected async patchCalendarObject(
+    calendarId: string,
+    objectId: string,
+    componentName: string,
+    etag: string | undefined,
+    modify: (vcalendar: ICalComponent, component: ICalComponent) => void | Promise<void>
+  ): Promise<{ icalendar: string; etag?: string }> {
+    await this.assertWritableCalendar(calendarId);
+    const url = `/remote.php/dav/calendars/{username}/${calendarId}/${objectId}`;
+    const current = await this.makeStrictWebDAVRequest({
+      method: 'GET',
+      url,
+      headers: {
+        'Depth': '0',
+      },
+    });
+
+    const components = parseICalendarData(current.data);
+    const vcalendar = components.find(component => component.name === 'VCALENDAR');
+    const master = vcalendar?.components.find(
+      component => component.name === componentName && !getICalProperty(component, 'RECURRENCE-ID')
+    );
+    if (!vcalendar || !master) {
+      throw new Error(`Object ${objectId} in calendar ${calendarId} does not contain a ${componentName}`);
+    }
+
+    await modify(vcalendar, master);
+
+    const now = formatICalDateTimeUTC(new Date());
+    setICalProperty(master, 'DTSTAMP', now);
+    setICalProperty(master, 'LAST-MODIFIED', now);
+
+    const ifMatch = etag || current.headers['etag'];
+    const icalendar = components.map(serializeICalComponent).join('');
+
+    try {
+      const response = await this.makeStrictWebDAVRequest({
+        method: 'PUT',
+        url,
+        data: icalendar,
+        headers: {
+          'Content-Type': 'text/calendar; charset=utf-8',
+          ...(ifMatch && { 'If-Match': ifMatch }),
+        },
+      });
+      return { icalendar, etag: response.headers['etag'] || undefined };
+    } catch (error) {
+      if (error instanceof NextcloudRequestError && error.status === 412) {
+        throw new NextcloudRequestError(
+          `${objectId} was modified by another client since it was read (etag ${ifMatch}). Fetch it again and retry the update.`,
+          412,
+          error.data
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The user's calendar addresses (lower-cased e-mails) from the principal's
+   * calendar-user-address-set, used to recognise the user among attendees
+   */
+  private async getUserAddresses(): Promise<string[]> {
+    if (this.userAddresses) {
+      return this.userAddresses;
+    }
+
+    const propfindXml = `<?xml version="1.0" encoding="utf-8" ?>
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>
+    <d:displayname />
+    <c:calendar-user-address-set />
+  </d:prop>
+</d:propfind>`;
+
+    const response = await this.makeStrictWebDAVRequest({
+      method: 'PROPFIND',
+      url: '/remote.php/dav/principals/users/{username}/',
+      data: propfindXml,
+      headers: {
+        'Depth': '0',
+      },
+    });
+
+    const xmlText = response.data;
+    const hrefs = [...xmlText.matchAll(/<(?:\w+:)?href>([^<]+)<\/(?:\w+:)?href>/g)]
+      .map(match => this.decodeHtmlEntities(match[1]).trim())
+      .filter(href => /^mailto:/i.test(href));
+    const displayName = /<(?:\w+:)?displayname>([^<]*)<\/(?:\w+:)?displayname>/.exec(xmlText)?.[1];
+
+    this.userAddresses = hrefs.map(href => this.getCalendarAddressEmail(href).toLowerCase());
+    this.userDisplayName = displayName ? this.decodeHtmlEntities(displayName) : undefined;
+    return this.userAddresses;
+  }
+
+  private async getDefaultOrganizer(): Promise<Organizer> {
+    const [email] = await this.getUserAddresses();
+    if (!email) {
+      throw new Error('Cannot determine your calendar e-mail address. Set an e-mail address in your Nextcloud profile or pass an organizer explicitly.');
+    }
+    return { email, ...(this.userDisplayName && { name: this.userDisplayName }) };
+  }
+
+  private getCalendarAddressEmail(address: string): string {
+    return address.trim().replace(/^mailto:/i, '');
+  }
+
+  public async deleteEvent(
+    calendarId: string,
+    eventId: string
+  ): Promise<void> {
+    await this.assertWritableCalendar(calendarId);
+    await this.makeStrictWebDAVRequest({
+      method: 'DELETE',
+      url: `/remote.php/dav/calendars/{username}/${calendarId}/${eventId}`,
+    });
+  }
+
+  /**
+   * Build a CalDAV calendar-query REPORT body for VEVENTs (or another
+   * component), optionally limited to a time range (both bounds in iCalendar
+   * UTC format) or to a single UID
+   */
+  protected buildCalendarQueryXml(
+    rangeStart?: string,
+    rangeEnd?: string,
+    uid?: string,
+    componentName: string = 'VEVENT'
+  ): string {
+    const timeRangeAttributes = [
+      rangeStart ? `start="${rangeStart}"` : '',
+      rangeEnd ? `end="${rangeEnd}"` : '',
+    ].filter(Boolean).join(' ');
+
+    const timeRange = timeRangeAttributes
+      ? `\n        <c:time-range ${timeRangeAttributes} />\n      `
+      : '';
+    const uidFilter = uid
+      ? `\n        <c:prop-filter name="UID">\n          <c:text-match collation="i;octet">${this.escapeXml(uid)}</c:text-match>\n        </c:prop-filter>\n      `
+      : '';
+
+    return `<?xml version="1.0" encoding="utf-8" ?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>
+    <d:getetag />
+    <c:calendar-data />
+  </d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="${componentName}">${timeRange}${uidFilter}</c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+  }
+
+  /**
+   * Client-side time-range filtering for servers that refuse REPORT.
+   * Mirrors the CalDAV overlap rules: an event matches when it starts before
+   * the range end and ends after the range start.
+   */
+  private filterEventsByRange(events: Event[], rangeStart?: string, rangeEnd?: string): Event[] {
+    if (!rangeStart && !rangeEnd) {
+      return events;
+    }
+
+    const windowStart = rangeStart ? parseICalDateTime(rangeStart) : undefined;
+    const windowEnd = rangeEnd ? parseICalDateTime(rangeEnd) : undefined;
+
+    return events.filter(event => {
+      if (!event.dtstart) {
+        return false;
+      }
+
+      const interval = this.getEventInterval(event);
+      if (!interval) {
+        // Keep events we cannot interpret rather than silently hiding them
+        return true;
+      }
+
+      if (windowEnd && interval.start >= windowEnd) {
+        return false;
+      }
+      if (windowStart) {
+        const isInstant = interval.end.getTime() === interval.start.getTime();
+        return isInstant ? interval.start >= windowStart : interval.end > windowStart;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Absolute start and end of an event. All-day events without DTEND last one
+   * day, timed events without DTEND or DURATION are instantaneous.
+   */
+  private getEventInterval(event: Event): { start: Date; end: Date } | undefined {
+    const start = event.dtstartUtc
+      ? new Date(event.dtstartUtc)
+      : event.dtstart ? this.toUtcDate(event.dtstart, event.timezone) : undefined;
+    if (!start) {
+      return undefined;
+    }
+
+    const end = event.dtendUtc ? new Date(event.dtendUtc) : undefined;
+    if (end) {
+      return { start, end };
+    }
+
+    const fallbackDuration = event.allDay ? 24 * 60 * 60 * 1000 : 0;
+    return { start, end: new Date(start.getTime() + fallbackDuration) };
+  }
+
+  /**
+   * Expand recurring events into their occurrences within the requested range.
+   * Components are grouped per calendar object and UID so that overridden
+   * instances (RECURRENCE-ID) replace the occurrences they modify.
+   */
+  private applyRecurrence(events: Event[], rangeStart?: string, rangeEnd?: string): Event[] {
+    const windowStart = rangeStart ? parseICalDateTime(rangeStart) : undefined;
+    const windowEnd = rangeEnd ? parseICalDateTime(rangeEnd) : undefined;
+
+    const groups = new Map<string, Event[]>();
+    for (const event of events) {
+      const key = `${event.uri || event.id}#${event.uid || ''}`;
+      groups.set(key, [...(groups.get(key) || []), event]);
+    }
+
+    const results: Event[] = [];
+    for (const group of groups.values()) {
+      const master = group.find(event => !event.recurrenceId);
+      const overrides = group.filter(event => event.recurrenceId);
+
+      if (!master || !master.recurring) {
+        results.push(...this.filterEventsByRange(group, rangeStart, rangeEnd));
+      } else if (!windowStart || !windowEnd) {
+        // Without a bounded range the series cannot be expanded, return the master as-is
+        results.push(master, ...this.filterEventsByRange(overrides, rangeStart, rangeEnd));
+      } else {
+        results.push(...this.expandEvent(master, overrides, windowStart, windowEnd));
+        results.push(...this.filterEventsByRange(overrides, rangeStart, rangeEnd));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Turn a recurring master event into concrete occurrences within a window,
+   * skipping instances that have an overriding RECURRENCE-ID component.
+   * The rule is evaluated in the event's own timezone so that DST changes do
+   * not shift the local time of later occurrences.
+   */
+  private expandEvent(master: Event, overrides: Event[], windowStart: Date, windowEnd: Date): Event[] {
+    const start = master.dtstart ? parseICalDateTime(master.dtstart) : undefined;
+    const interval = this.getEventInterval(master);
+    if (!master.dtstart || !start || !interval) {
+      return [master];
+    }
+
+    let rule: RecurrenceRule | undefined;
+    try {
+      rule = master.recurrenceRule ? parseRecurrenceRule(master.recurrenceRule) : undefined;
+    } catch (error) {
+      console.warn(`Cannot expand recurrence of event ${master.id}:`, error);
+      return [master];
     }
-  }
 
-  public async createEvent(
-    calendarId: string,
-    event: Partial<Event>
-  ): Promise<Event> {
-    // Generate a unique event ID
-    const eventId = `event-${Date.now()}.ics`;
-    
-    // Create iCalendar content
-    const icalendar = this.createICalendar(event);
+    const timezone = master.timezone;
+    const toInstant = (wall: Date) => this.wallToUtc(wall, timezone);
+    const duration = interval.end.getTime() - interval.start.getTime();
 
-    await this.makeWebDAVRequest({
-      method: 'PUT',
-      url: `/remote.php/dav/calendars/{username}/${calendarId}/${eventId}`,
-      data: icalendar,
-      headers: {
-        'Content-Type': 'text/calendar; charset=utf-8',
-      },
-    });
+    const toInstants = (values?: string[]) => (values || [])
+      .map(value => this.toUtcDate(value, timezone))
+      .filter((date): date is Date => date !== undefined);
 
-    return {
-      id: eventId,
-      calendarId,
-      ...event,
-    };
-  }
+    // RDATEs may be given in UTC, expansion works on wall-clock times
+    const rdates = (master.rdates || [])
+      .map(value => {
+        const date = parseICalDateTime(value);
+        return date && value.endsWith('Z') ? this.utcToWall(date, timezone) : date;
+      })
+      .filter((date): date is Date => date !== undefined);
 
-  public async listEvents(
-    calendarId: string,
-    start?: string,
-    end?: string
-  ): Promise<Event[]> {
-    const propfindXml = `<?xml version="1.0" encoding="utf-8" ?>
-<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
-  <d:prop>
-    <d:getetag />
-    <c:calendar-data />
-  </d:prop>
-</d:propfind>`;
+    const overriddenStarts = new Set(
+      toInstants(overrides.map(override => override.recurrenceId!)).map(date => date.getTime())
+    );
 
-    const response = await this.makeWebDAVRequest({
-      method: 'PROPFIND',
-      url: `/remote.php/dav/calendars/{username}/${calendarId}/`,
-      data: propfindXml,
+    const occurrenceStarts = expandRecurrence({
+      start,
+      rule,
+      rdates,
+      exdates: toInstants(master.exdates),
+      rangeStart: windowStart,
+      rangeEnd: windowEnd,
+      duration,
+      toInstant,
     });
 
-    return this.parseEventsResponse(response);
+    return occurrenceStarts
+      .map(occurrence => toInstant(occurrence))
+      .filter(instant => !overriddenStarts.has(instant.getTime()))
+      .map(instant => {
+        const end = new Date(instant.getTime() + duration);
+        const occurrenceStart = this.formatLike(instant, master.dtstart!, timezone);
+        return {
+          ...master,
+          dtstart: occurrenceStart,
+          dtstartUtc: instant.toISOString(),
+          ...(master.dtend && { dtend: this.formatLike(end, master.dtend, timezone) }),
+          ...(master.dtendUtc && { dtendUtc: end.toISOString() }),
+          occurrenceStart,
+        };
+      });
   }
 
-  public async getEvent(
-    calendarId: string,
-    eventId: string
-  ): Promise<Event> {
-    const response = await this.makeWebDAVRequest({
-      method: 'GET',
-      url: `/remote.php/dav/calendars/{username}/${calendarId}/${eventId}`,
-    });
+  /**
+   * Convert an iCalendar date/time value to an instant. UTC values are absolute,
+   * local values are interpreted in the given TZID (floating times as UTC).
+   */
+  protected toUtcDate(value: string, timezone?: string): Date | undefined {
+    const date = parseICalDateTime(value);
+    if (!date || value.trim().endsWith('Z') || isICalDate(value)) {
+      return date;
+    }
+    return this.wallToUtc(date, timezone);
+  }
 
-    const event = this.parseICalendar(response);
-    return { ...event, id: eventId, calendarId };
+  private wallToUtc(wall: Date, timezone?: string): Date {
+    if (!timezone) {
+      return wall;
+    }
+
+    const ianaTimezone = normalizeTimeZoneId(timezone);
+    if (ianaTimezone) {
+      return zonedTimeToUtc(wall, ianaTimezone);
+    }
+
+    const vtimezone = this.customTimezones.get(timezone);
+    if (vtimezone) {
+      return new Date(wall.getTime() - getVTimezoneOffset(vtimezone, wall));
+    }
+
+    console.warn(`Unknown timezone ${timezone}, interpreting time as UTC`);
+    return wall;
   }
 
-  public async updateEvent(
-    calendarId: string,
-    eventId: string,
-    event: Partial<Event>
-  ): Promise<Event> {
-    // Create iCalendar content
-    const icalendar = this.createICalendar(event);
+  private utcToWall(instant: Date, timezone?: string): Date {
+    if (!timezone) {
+      return instant;
+    }
 
-    await this.makeWebDAVRequest({
-      method: 'PUT',
-      url: `/remote.php/dav/calendars/{username}/${calendarId}/${eventId}`,
-      data: icalendar,
-      headers: {
-        'Content-Type': 'text/calendar; charset=utf-8',
-      },
-    });
+    const ianaTimezone = normalizeTimeZoneId(timezone);
+    if (ianaTimezone) {
+      return utcToZonedTime(instant, ianaTimezone);
+    }
 
-    return {
-      id: eventId,
-      calendarId,
-      ...event,
-    };
+    const vtimezone = this.customTimezones.get(timezone);
+    if (vtimezone) {
+      const approximateWall = new Date(instant.getTime() + getVTimezoneOffset(vtimezone, instant));
+      return new Date(instant.getTime() + getVTimezoneOffset(vtimezone, approximateWall));
+    }
+
+    return instant;
   }
 
-  public async deleteEvent(
-    calendarId: string,
-    eventId: string
-  ): Promise<void> {
-    await this.makeWebDAVRequest({
-      method: 'DELETE',
-      url: `/remote.php/dav/calendars/{username}/${calendarId}/${eventId}`,
-    });
+  /**
+   * Format an instant in the same shape (DATE, UTC or local DATE-TIME) as a reference value
+   */
+  private formatLike(instant: Date, reference: string, timezone?: string): string {
+    if (reference.trim().endsWith('Z')) {
+      return formatICalDateTimeUTC(instant);
+    }
+    return formatICalDateTimeLike(isICalDate(reference) ? instant : this.utcToWall(instant, timezone), reference);
   }
 
   private parseCalendarsResponse(xmlResponse: string): Calendar[] {
@@ -234,6 +2040,10 @@ export class CalendarClient extends BaseNextcloudClient {
           resourcetype['cal:calendar'] !== undefined ||
           resourcetype.calendar !== undefined
         );
+        // Webcal subscriptions are collections of type cs:subscribed, or
+        // calendars with a cs:source when Nextcloud serves its cached copy
+        const source = this.getXmlChild(this.getXmlChild(prop, 'source'), 'href');
+        const isSubscribed = this.getXmlChild(resourcetype, 'subscribed') !== undefined || !!source;
         
         console.log('Checking resource:', {
           href,
@@ -242,23 +2052,27 @@ export class CalendarClient extends BaseNextcloudClient {
           propKeys: Object.keys(prop)
         });
         
-        if (isCalendar) {
+        if (isCalendar || isSubscribed) {
           const displayname = prop['d:displayname'] || '';
           const description = prop['c:calendar-description'] ||
                              prop['cal:calendar-description'] || '';
           const ctag = prop['cs:getctag'] ||
                       prop['x1:getctag'] ||
                       prop.getctag || '';
-          const color = prop['c:calendar-color'] ||
-                       prop['cal:calendar-color'] || '';
-          const order = parseInt(prop['c:calendar-order'] ||
-                               prop['cal:calendar-order'] || '0');
+          const color = this.getXmlChild(prop, 'calendar-color') || '';
+          const order = parseInt(this.getXmlChild(prop, 'calendar-order') || '0');
+          const componentSet = this.getXmlChild(this.getXmlChild(prop, 'supported-calendar-component-set'), 'comp');
+          const components = componentSet
+            ? (Array.isArray(componentSet) ? componentSet : [componentSet]).map(comp => comp['@_name']).filter(Boolean)
+            : undefined;
 
           // Extract calendar ID from href
           const pathParts = href.split('/');
           const id = pathParts[pathParts.length - 2] || pathParts[pathParts.length - 1];
 
-          console.log('Found calendar:', { id, displayname, href, ctag });
+          const refreshRate = this.getXmlChild(prop, 'refreshrate');
+
+          console.log('Found calendar:', { id, displayname, href, ctag, isSubscribed });
 
           if (id && id !== 'calendars' && id !== this.username) {
             calendars.push({
@@ -269,6 +2083,12 @@ export class CalendarClient extends BaseNextcloudClient {
               color,
               order,
               uri: href,
+              ...(components && { components }),
+              ...(isSubscribed && {
+                subscribed: true,
+                source: source ? String(source) : '',
+                ...(refreshRate && { refreshRate: String(refreshRate) }),
+              }),
             });
           }
         }
@@ -284,33 +2104,62 @@ export class CalendarClient extends BaseNextcloudClient {
   }
 
   private parseEventsResponse(xmlResponse: string): Event[] {
+    return this.objectsToEvents(this.parseCalendarObjects(xmlResponse));
+  }
+
+  private objectsToEvents(objects: CalendarObject[]): Event[] {
+    // A calendar object may hold a recurring master plus overridden instances
+    return objects.flatMap(object =>
+      this.parseICalendarEvents(object.data).map(event => ({
+        id: object.id,
+        etag: object.etag,
+        uri: object.uri,
+        ...event,
+      }))
+    );
+  }
+
+  /**
+   * Extract the calendar objects (.ics resources with their calendar-data)
+   * from a PROPFIND or REPORT multistatus response
+   */
+  protected parseCalendarObjects(xmlResponse: string): CalendarObject[] {
     try {
       const parsed = this.xmlParser.parse(xmlResponse);
-      const events: Event[] = [];
+      const objects: CalendarObject[] = [];
 
-      const multistatus = parsed['d:multistatus'] || parsed.multistatus;
-      if (!multistatus || !multistatus['d:response']) {
+      const multistatus = parsed['d:multistatus'] ||
+                         parsed['D:multistatus'] ||
+                         parsed.multistatus;
+      const responses = multistatus && (multistatus['d:response'] ||
+                                        multistatus['D:response'] ||
+                                        multistatus.response);
+      if (!responses) {
         return [];
       }
 
-      const responses = Array.isArray(multistatus['d:response'])
-        ? multistatus['d:response']
-        : [multistatus['d:response']];
+      const responseArray = Array.isArray(responses) ? responses : [responses];
 
-      for (const response of responses) {
-        const href = response['d:href'] || '';
-        const propstat = response['d:propstat'];
-        
-        if (!propstat || !propstat['d:prop']) continue;
+      for (const response of responseArray) {
+        const href = response['d:href'] || response['D:href'] || response.href || '';
+        const propstats = response['d:propstat'] || response['D:propstat'] || response.propstat;
+        if (!propstats) continue;
 
-        const prop = propstat['d:prop'];
+        // REPORT responses may carry several propstats (200 and 404); use the successful one
+        const propstatArray = Array.isArray(propstats) ? propstats : [propstats];
+        const propstat = propstatArray.find(ps => {
+          const status = ps['d:status'] || ps['D:status'] || ps.status || '';
+          return !status || status.includes('200');
+        });
+        const prop = propstat && (propstat['d:prop'] || propstat['D:prop'] || propstat.prop);
+        if (!prop) continue;
         const calendarData = prop['c:calendar-data'] ||
                             prop['C:calendar-data'] ||
                             prop['cal:calendar-data'] ||
                             prop['calendar-data'];
 
         if (calendarData && href.endsWith('.ics')) {
-          console.log('Found event iCalendar:', {
+          console.log('Found calendar object:', {
             href,
             calendarDataLength: calendarData.length,
             calendarDataPreview: calendarData.substring(0, 100)
@@ -318,18 +2167,13 @@ export class CalendarClient extends BaseNextcloudClient {
           
           // Decode HTML entities
           const decodedIcal = this.decodeHtmlEntities(calendarData);
-          const event = this.parseICalendar(decodedIcal);
           const pathParts = href.split('/');
           const id = pathParts[pathParts.length - 1];
           const etag = prop['d:getetag'] ||
                       prop['D:getetag'] ||
                       prop.getetag || '';
-          events.push({
-            id,
-            etag,
-            uri: href,
-            ...event
-          });
+
+          objects.push({ id, etag, uri: href, data: decodedIcal });
         } else if (href) {
           console.log('Skipping non-iCalendar resource:', href, {
             hasCalendarData: !!calendarData,
@@ -338,39 +2182,89 @@ export class CalendarClient extends BaseNextcloudClient {
         }
       }
 
-      return events;
+      return objects;
     } catch (error) {
-      console.error('Error parsing events response:', error);
+      console.error('Error parsing calendar objects response:', error);
       console.error('XML Response:', xmlResponse);
       return [];
     }
   }
 
   private parseICalendar(icalData: string): Partial<Event> {
-    const event: Partial<Event> = {};
-    const lines = icalData.split(/\r?\n/);
+    const events = this.parseICalendarEvents(icalData);
+    return events.find(event => !event.recurrenceId) || events[0] || {};
+  }
+
+  /**
+   * Parse every VEVENT of a calendar object (RFC 5545), including overridden
+   * instances that share the master's UID
+   */
+  private parseICalendarEvents(icalData: string): Partial<Event>[] {
+    const components = parseICalendarData(icalData);
+    this.registerTimezones(components);
+    return findICalComponents(components, 'VEVENT').map(vevent => this.mapEventComponent(vevent));
+  }
+
+  /**
+   * Remember custom timezone definitions for TZIDs that are not IANA names
+   */
+  protected registerTimezones(components: ICalComponent[]): void {
+    for (const vtimezone of findICalComponents(components, 'VTIMEZONE')) {
+      const tzid = getICalProperty(vtimezone, 'TZID')?.value;
+      if (tzid && !normalizeTimeZoneId(tzid)) {
+        this.customTimezones.set(tzid, vtimezone);
+      }
+    }
+  }
 
-    for (const line of lines) {
-      const [property, value] = line.split(':');
-      if (!property || !value) continue;
+  /**
+   * Map a parsed VEVENT component onto the Event model
+   */
+  private mapEventComponent(vevent: ICalComponent): Partial<Event> {
+    const event: Partial<Event> = {};
 
-      const propName = property.split(';')[0];
+    for (const property of vevent.properties) {
+      const value = property.value;
 
-      switch (propName) {
+      switch (property.name) {
+        case 'UID':
+          event.uid = value;
+          break;
         case 'SUMMARY':
-          event.summary = value;
+          event.summary = unescapeICalText(value);
           break;
         case 'DESCRIPTION':
-          event.description = value;
+          event.description = unescapeICalText(value);
           break;
-        case 'DTSTART':
+        case 'LOCATION':
+          event.location = unescapeICalText(value);
+          break;
+        case 'URL':
+          event.url = value;
+          break;
+        case 'DTSTART': {
           event.dtstart = value;
+          event.allDay = getICalParam(property, 'VALUE') === 'DATE' || isICalDate(value);
+          const timezone = getICalParam(property, 'TZID');
+          if (timezone) {
+            event.timezone = timezone;
+          }
+          const start = this.toUtcDate(value, timezone);
+          if (start) {
+            event.dtstartUtc = start.toISOString();
+          }
           break;
-        case 'DTEND':
+        }
+        case 'DTEND': {
           event.dtend = value;
+          const end = this.toUtcDate(value, getICalParam(property, 'TZID'));
+          if (end) {
+            event.dtendUtc = end.toISOString();
+          }
           break;
-        case 'LOCATION':
-          event.location = value;
+        }
+        case 'DURATION':
+          event.duration = value;
           break;
         case 'STATUS':
           event.status = value;
@@ -378,50 +2272,441 @@ export class CalendarClient extends BaseNextcloudClient {
         case 'PRIORITY':
           event.priority = parseInt(value) || 0;
           break;
+        case 'SEQUENCE':
+          event.sequence = parseInt(value) || 0;
+          break;
+        case 'TRANSP':
+          event.transparency = value;
+          break;
+        case 'CATEGORIES':
+          event.categories = [
+            ...(event.categories || []),
+            ...splitICalList(value).map(category => unescapeICalText(category).trim()).filter(Boolean),
+          ];
+          break;
+        case 'ATTENDEE': {
+          const attendee: Attendee = { email: this.getCalendarAddressEmail(value) };
+          const name = getICalParam(property, 'CN');
+          const role = getICalParam(property, 'ROLE');
+          const partstat = getICalParam(property, 'PARTSTAT');
+          const rsvp = getICalParam(property, 'RSVP');
+          const cutype = getICalParam(property, 'CUTYPE');
+          const scheduleStatus = getICalParam(property, 'SCHEDULE-STATUS');
+          if (name) attendee.name = name;
+          if (role) attendee.role = role.toUpperCase() as AttendeeRole;
+          if (partstat) attendee.partstat = partstat.toUpperCase() as ParticipationStatus;
+          if (rsvp) attendee.rsvp = rsvp.toUpperCase() === 'TRUE';
+          if (cutype) attendee.cutype = cutype;
+          if (scheduleStatus) attendee.scheduleStatus = scheduleStatus;
+          event.attendees = [...(event.attendees || []), attendee];
+          break;
+        }
+        case 'ORGANIZER': {
+          const name = getICalParam(property, 'CN');
+          event.organizer = { email: this.getCalendarAddressEmail(value), ...(name && { name }) };
+          break;
+        }
+        case 'LAST-MODIFIED': {
+          const lastModified = parseICalDateTime(value);
+          if (lastModified) {
+            event.lastmodified = Math.floor(lastModified.getTime() / 1000);
+          }
+          break;
+        }
+        case 'RRULE':
+          event.recurring = true;
+          event.recurrenceRule = value;
+          break;
+        case 'RDATE':
+          event.recurring = true;
+          // PERIOD values ("start/end") only contribute their start
+          event.rdates = [
+            ...(event.rdates || []),
+            ...value.split(',').map(item => this.toUtcIfZoned(item.split('/')[0], getICalParam(property, 'TZID'))),
+          ];
+          break;
+        case 'EXDATE':
+          event.exdates = [
+            ...(event.exdates || []),
+            ...value.split(',').map(item => this.toUtcIfZoned(item, getICalParam(property, 'TZID'))),
+          ];
+          break;
+        case 'RECURRENCE-ID':
+          event.recurring = true;
+          event.recurrenceId = value;
+          event.occurrenceStart = value;
+          break;
+      }
+    }
+
+    const alarms = vevent.components.filter(component => component.name === 'VALARM');
+    if (alarms.length > 0) {
+      event.reminders = alarms.map((valarm, index) => this.mapAlarmComponent(valarm, index));
+    }
+
+    // Derive the normalised end from DURATION when there is no DTEND
+    if (!event.dtendUtc && event.dtstartUtc && event.duration) {
+      const duration = parseICalDuration(event.duration);
+      if (duration !== undefined) {
+        event.dtendUtc = new Date(new Date(event.dtstartUtc).getTime() + duration).toISOString();
       }
     }
 
     return event;
   }
 
+  /**
+   * Read a VALARM. Alarms without a UID (or Apple's X-WR-ALARMUID) get an
+   * index-based id so that they can still be addressed on update.
+   */
+  private mapAlarmComponent(valarm: ICalComponent, index: number): Reminder {
+    const reminder: Reminder = {
+      id: this.getAlarmId(valarm, index),
+      action: (getICalProperty(valarm, 'ACTION')?.value.toUpperCase() || 'DISPLAY') as ReminderAction,
+    };
+
+    const trigger = getICalProperty(valarm, 'TRIGGER');
+    if (trigger) {
+      if (getICalParam(trigger, 'VALUE') === 'DATE-TIME') {
+        const at = parseICalDateTime(trigger.value);
+        if (at) {
+          reminder.at = at.toISOString();
+        }
+      } else {
+        const offset = parseICalDuration(trigger.value);
+        if (offset !== undefined) {
+          reminder.minutesBefore = -offset / 60000 || 0;
+        }
+        if (getICalParam(trigger, 'RELATED')?.toUpperCase() === 'END') {
+          reminder.relatedTo = 'END';
+        }
+      }
+    }
+
+    const description = getICalProperty(valarm, 'DESCRIPTION');
+    if (description) {
+      reminder.description = unescapeICalText(description.value);
+    }
+
+    return reminder;
+  }
+
+  private getAlarmId(valarm: ICalComponent, index: number): string {
+    return getICalProperty(valarm, 'UID')?.value ||
+      getICalProperty(valarm, 'X-WR-ALARMUID')?.value ||
+      `alarm-${index + 1}`;
+  }
+
+  /**
+   * Apply reminder changes: reminders with a known id replace that alarm (or
+   * remove it with `remove: true`), reminders without an id are added, and
+   * alarms that are not mentioned are kept as they are
+   */
+  private patchReminders(vevent: ICalComponent, reminders: Reminder[]): void {
+    const existing = vevent.components.filter(component => component.name === 'VALARM');
+    const alarmsById = new Map(existing.map((valarm, index) => [this.getAlarmId(valarm, index), valarm]));
+    const summary = getICalProperty(vevent, 'SUMMARY')?.value;
+
+    for (const reminder of reminders) {
+      const current = reminder.id ? alarmsById.get(reminder.id) : undefined;
+      if (reminder.id && !current) {
+        throw new Error(`Reminder ${reminder.id} not found. Omit the id to add a new reminder.`);
+      }
+
+      if (current && reminder.remove) {
+        vevent.components = vevent.components.filter(component => component !== current);
+        continue;
+      }
+
+      const valarm = current || { name: 'VALARM', properties: [{ name: 'UID', params: {}, value: randomUUID() }], components: [] };
+      if (!current) {
+        if (reminder.minutesBefore === undefined && !reminder.at) {
+          throw new Error('A new reminder needs either minutesBefore or an absolute time (at)');
+        }
+        vevent.components.push(valarm);
+      }
+
+      const action = reminder.action || (current ? undefined : 'DISPLAY');
+      if (action) {
+        setICalProperty(valarm, 'ACTION', action);
+      }
+
+      if (reminder.at) {
+        const at = parseICalDateTime(reminder.at);
+        if (!at) {
+          throw new Error(`Invalid reminder time: ${reminder.at}`);
+        }
+        setICalProperty(valarm, 'TRIGGER', formatICalDateTimeUTC(at), { VALUE: ['DATE-TIME'] });
+      } else if (reminder.minutesBefore !== undefined) {
+        const related: Record<string, string[]> = reminder.relatedTo === 'END' ? { RELATED: ['END'] } : {};
+        setICalProperty(valarm, 'TRIGGER', formatICalDuration(-reminder.minutesBefore * 60000), related);
+      }
+
+      // DISPLAY and EMAIL alarms require a DESCRIPTION, EMAIL alarms also a SUMMARY
+      if (reminder.description !== undefined || !getICalProperty(valarm, 'DESCRIPTION')) {
+        setICalProperty(valarm, 'DESCRIPTION', reminder.description !== undefined
+          ? escapeICalText(reminder.description)
+          : summary || 'Reminder');
+      }
+      if (getICalProperty(valarm, 'ACTION')?.value === 'EMAIL' && !getICalProperty(valarm, 'SUMMARY')) {
+        setICalProperty(valarm, 'SUMMARY', summary || 'Reminder');
+      }
+    }
+  }
+
   private createICalendar(event: Partial<Event>): string {
-    const now = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
-    
-    let icalendar = 'BEGIN:VCALENDAR\nVERSION:2.0\nPRODID:-//Nextcloud MCP//EN\nBEGIN:VEVENT\n';
-    
-    icalendar += `UID:${event.id || `event-${Date.now()}`}\n`;
-    icalendar += `DTSTAMP:${now}\n`;
+    const vevent: ICalComponent = {
+      name: 'VEVENT',
+      properties: [
+        { name: 'UID', params: {}, value: event.uid || randomUUID() },
+        { name: 'DTSTAMP', params: {}, value: formatICalDateTimeUTC(new Date()) },
+      ],
+      components: [],
+    };
+    const vcalendar: ICalComponent = {
+      name: 'VCALENDAR',
+      properties: [
+        { name: 'VERSION', params: {}, value: '2.0' },
+        { name: 'PRODID', params: {}, value: '-//Nextcloud MCP//EN' },
+      ],
+      components: [vevent],
+    };
+
+    this.patchEventComponent(vcalendar, vevent, event);
+    return serializeICalComponent(vcalendar);
+  }
+
+  /**
+   * Write the supplied event fields into a VEVENT. Only properties backing a
+   * field that is present in `event` are replaced (an empty value removes
+   * them); everything else in the component is left as it is.
+   */
+  private patchEventComponent(vcalendar: ICalComponent, vevent: ICalComponent, event: Partial<Event>): void {
+    const textFields: Array<[keyof Event, string]> = [
+      ['summary', 'SUMMARY'],
+      ['description', 'DESCRIPTION'],
+      ['location', 'LOCATION'],
+    ];
+    for (const [field, name] of textFields) {
+      const value = event[field];
+      if (value !== undefined) {
+        setICalProperty(vevent, name, escapeICalText(String(value)));
+      }
+    }
+
+    if (event.url !== undefined) {
+      setICalProperty(vevent, 'URL', event.url);
+    }
+
+    if (event.categories !== undefined) {
+      setICalProperty(vevent, 'CATEGORIES', event.categories.map(escapeICalText).join(','));
+    }
+
+    if (event.status !== undefined) {
+      setICalProperty(vevent, 'STATUS', event.status);
+    }
+
+    if (event.priority !== undefined) {
+      setICalProperty(vevent, 'PRIORITY', event.priority ? String(event.priority) : undefined);
+    }
+
+    if (event.transparency !== undefined) {
+      setICalProperty(vevent, 'TRANSP', event.transparency);
+    }
+
+    if (event.organizer !== undefined) {
+      setICalProperty(vevent, 'ORGANIZER', `mailto:${event.organizer.email}`,
+        event.organizer.name ? { CN: [event.organizer.name] } : {});
+    }
+
+    if (event.attendees !== undefined) {
+      this.patchAttendees(vevent, event.attendees);
+    }
+
+    if (event.reminders !== undefined) {
+      this.patchReminders(vevent, event.reminders);
+    }
+
+    if (event.timezone && !isValidTimeZone(event.timezone)) {
+      throw new Error(`Unknown timezone: ${event.timezone}. Use an IANA name such as "Europe/Berlin".`);
+    }
+
+    // Keep the event's existing timezone and value type unless new ones are given
+    const existingStart = getICalProperty(vevent, 'DTSTART');
+    const existingTimezone = existingStart && getICalParam(existingStart, 'TZID');
+    const existingAllDay = existingStart !== undefined &&
+      (getICalParam(existingStart, 'VALUE') === 'DATE' || isICalDate(existingStart.value));
+    const timezone = event.timezone || existingTimezone;
+    const allDay = event.allDay ?? (event.dtstart ? isDateOnly(event.dtstart) : existingAllDay);
 
-    if (event.summary) {
-      icalendar += `SUMMARY:${this.escapeICalProperty(event.summary)}\n`;
+    const reemit = existingStart !== undefined && (timezone !== existingTimezone || allDay !== existingAllDay);
+    if (event.dtstart === undefined && event.dtend === undefined && !reemit) {
+      return;
+    }
+
+    // Length of the event before the change, to keep it when only the start moves
+    const existingRange = existingStart && this.getEventRange(vevent, existingStart, existingTimezone);
+
+    // A new timezone or value type without a new start re-emits the current
+    // start: the same moment in the new zone, its local date for all-day, or
+    // midnight in the zone when an all-day event gets times
+    let startValue = event.dtstart;
+    if (!startValue && reemit && existingRange) {
+      startValue = existingAllDay && !allDay
+        ? `${this.toDateValue(existingRange.start, undefined, true)}T00:00:00`
+        : this.toDateValue(existingRange.start, existingAllDay ? undefined : existingTimezone, allDay);
+    }
+    if (startValue) {
+      const property = this.buildDateProperty('DTSTART', startValue, timezone, allDay);
+      vevent.properties = vevent.properties.filter(existing => existing.name !== 'DTSTART');
+      vevent.properties.push(property);
     }
 
-    if (event.description) {
-      icalendar += `DESCRIPTION:${this.escapeICalProperty(event.description)}\n`;
+    if (event.dtend !== undefined) {
+      setICalProperty(vevent, 'DURATION');
+      setICalProperty(vevent, 'DTEND');
+      if (event.dtend) {
+        vevent.properties.push(this.buildDateProperty('DTEND', event.dtend, timezone, allDay));
+      }
+    } else if (startValue && existingRange?.end) {
+      const hasDuration = getICalProperty(vevent, 'DURATION') !== undefined;
+      // DURATION moves with the start by itself, unless the value type changes
+      if (!hasDuration || allDay !== existingAllDay) {
+        const newStart = this.getEventRange(vevent, getICalProperty(vevent, 'DTSTART')!, timezone).start;
+        const length = existingRange.end.getTime() - existingRange.start.getTime();
+        const dayMs = 24 * 60 * 60 * 1000;
+        const end = allDay
+          ? new Date(newStart.getTime() + Math.max(1, Math.ceil(length / dayMs)) * dayMs)
+          : new Date(newStart.getTime() + length);
+        setICalProperty(vevent, 'DURATION');
+        setICalProperty(vevent, 'DTEND');
+        vevent.properties.push(this.buildDateProperty('DTEND', this.toDateValue(end, undefined, allDay), timezone, allDay));
+      }
     }
 
-    if (event.dtstart) {
-      icalendar += `DTSTART:${this.convertToICalDateTime(event.dtstart)}\n`;
+    const start = getICalProperty(vevent, 'DTSTART');
+    const end = getICalProperty(vevent, 'DTEND');
+    if (start && end) {
+      const range = this.getEventRange(vevent, start, timezone);
+      if (range.end && range.end.getTime() < range.start.getTime()) {
+        throw new Error(`The event would end (${end.value}) before it starts (${start.value})`);
+      }
     }
 
-    if (event.dtend) {
-      icalendar += `DTEND:${this.convertToICalDateTime(event.dtend)}\n`;
+    if (timezone && !allDay) {
+      this.ensureVTimezone(vcalendar, timezone, startValue);
     }
+  }
+
+  /**
+   * Start and end of a VEVENT as UTC instants; all-day dates stay at UTC
+   * midnight. The end comes from DTEND or DURATION, if either is set.
+   */
+  private getEventRange(vevent: ICalComponent, dtstart: ICalProperty, timezone?: string): { start: Date; end?: Date } {
+    const start = this.toUtcDate(dtstart.value, timezone) || new Date(NaN);
+    const dtend = getICalProperty(vevent, 'DTEND');
+    const duration = getICalProperty(vevent, 'DURATION');
+    const durationMs = duration ? parseICalDuration(duration.value) : undefined;
+    const end = dtend
+      ? this.toUtcDate(dtend.value, getICalParam(dtend, 'TZID') || timezone)
+      : durationMs !== undefined ? new Date(start.getTime() + durationMs) : undefined;
+    return { start, end };
+  }
 
-    if (event.location) {
-      icalendar += `LOCATION:${this.escapeICalProperty(event.location)}\n`;
+  /**
+   * A date as buildDateProperty accepts it: "YYYY-MM-DD" for all-day values
+   * (the local date in `timezone` for instants), an ISO instant otherwise
+   */
+  private toDateValue(date: Date, timezone: string | undefined, allDay: boolean): string {
+    return allDay
+      ? this.utcToWall(date, timezone).toISOString().substring(0, 10)
+      : date.toISOString();
+  }
+
+  /**
+   * RDATE/EXDATE values may carry their own TZID, which can differ from the
+   * DTSTART's; such values are kept as UTC so expansion does not read them in
+   * the event's timezone
+   */
+  private toUtcIfZoned(value: string, tzid?: string): string {
+    const instant = tzid && !isICalDate(value) && !value.trim().endsWith('Z') ? this.toUtcDate(value, tzid) : undefined;
+    return instant ? formatICalDateTimeUTC(instant) : value;
+  }
+
+  /**
+   * Times with a TZID need a matching VTIMEZONE in the calendar object; add
+   * one for IANA timezones that are not defined yet
+   */
+  protected ensureVTimezone(vcalendar: ICalComponent, timezone: string, referenceValue?: string): void {
+    const ianaTimezone = normalizeTimeZoneId(timezone);
+    const hasVTimezone = vcalendar.components.some(
+      component => component.name === 'VTIMEZONE' && getICalProperty(component, 'TZID')?.value === timezone
+    );
+    if (!ianaTimezone || hasVTimezone) {
+      return;
     }
 
-    if (event.status) {
-      icalendar += `STATUS:${event.status}\n`;
+    const reference = referenceValue ? parseWallClock(referenceValue) || parseICalDateTime(referenceValue) : undefined;
+    const vtimezone = buildVTimezone(ianaTimezone, reference);
+    setICalProperty(vtimezone, 'TZID', timezone);
+    vcalendar.components.unshift(vtimezone);
+  }
+
+  /**
+   * Replace the ATTENDEE list. Attendees that were already on the event keep
+   * their parameters (reply status, SCHEDULE-STATUS, ...) unless overridden.
+   */
+  private patchAttendees(vevent: ICalComponent, attendees: Attendee[]): void {
+    const existing = new Map(
+      getICalProperties(vevent, 'ATTENDEE').map(property => [this.getCalendarAddressEmail(property.value).toLowerCase(), property])
+    );
+
+    const properties = attendees.map(attendee => {
+      const previous = existing.get(attendee.email.toLowerCase());
+      const params: Record<string, string[]> = {
+        CUTYPE: ['INDIVIDUAL'],
+        ROLE: ['REQ-PARTICIPANT'],
+        PARTSTAT: ['NEEDS-ACTION'],
+        RSVP: ['TRUE'],
+        ...previous?.params,
+      };
+      if (attendee.name) params.CN = [attendee.name];
+      if (attendee.role) params.ROLE = [attendee.role];
+      if (attendee.partstat) params.PARTSTAT = [attendee.partstat];
+      if (attendee.rsvp !== undefined) params.RSVP = [attendee.rsvp ? 'TRUE' : 'FALSE'];
+      if (attendee.cutype) params.CUTYPE = [attendee.cutype];
+
+      return { name: 'ATTENDEE', params, value: `mailto:${attendee.email}` };
+    });
+
+    vevent.properties = [...vevent.properties.filter(property => property.name !== 'ATTENDEE'), ...properties];
+  }
+
+  /**
+   * Build a DTSTART/DTEND property. All-day values become DATE values; with a
+   * timezone, local times are kept as wall-clock times with a TZID parameter
+   * (times carrying an offset are converted into that zone); otherwise the
+   * value is converted to UTC.
+   */
+  protected buildDateProperty(name: string, value: string, timezone: string | undefined, allDay: boolean): ICalProperty {
+    if (allDay) {
+      const day = parseWallClock(value) || parseICalDateTime(value);
+      if (!day) {
+        throw new Error(`Invalid ${name} date: ${value}`);
+      }
+      return { name, params: { VALUE: ['DATE'] }, value: formatICalDateTimeUTC(day).substring(0, 8) };
     }
 
-    if (event.priority) {
-      icalendar += `PRIORITY:${event.priority}\n`;
+    if (timezone) {
+      const instant = parseICalDateTime(value);
+      const wall = parseWallClock(value) || (instant && this.utcToWall(instant, timezone));
+      if (!wall) {
+        throw new Error(`Invalid ${name} date/time: ${value}`);
+      }
+      return { name, params: { TZID: [timezone] }, value: formatICalDateTimeUTC(wall).slice(0, -1) };
     }
 
-    icalendar += 'END:VEVENT\nEND:VCALENDAR';
-    return icalendar;
+    return { name, params: {}, value: this.convertToICalDateTime(value) };
   }
 
   /**
@@ -457,19 +2742,7 @@ export class CalendarClient extends BaseNextcloudClient {
     }
   }
 
-  /**
-   * Escape special characters in iCalendar properties
-   */
-  private escapeICalProperty(value: string): string {
-    return value
-      .replace(/\\/g, '\\\\')  // Escape backslashes first
-      .replace(/;/g, '\\;')    // Escape semicolons
-      .replace(/,/g, '\\,')    // Escape commas
-      .replace(/\n/g, '\\n')   // Escape newlines
-      .replace(/\r/g, '');     // Remove carriage returns
-  }
-
-  private decodeHtmlEntities(str: string): string {
+  protected decodeHtmlEntities(str: string): string {
     return str
       .replace(/&#13;/g, '\r')
       .replace(/&#10;/g, '\n')
@@ -480,4 +2753,13 @@ export class CalendarClient extends BaseNextcloudClient {
       .replace(/&gt;/g, '>')
       .replace(/&amp;/g, '&'); // This should be last
   }
+
+  protected escapeXml(str: string): string {
+    return str
+      .replace(/&/g, '&amp;') // This should be first
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
 }
\ No newline at end of file
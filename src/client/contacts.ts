@@ -1,6 +1,110 @@
-import { BaseNextcloudClient } from './base';
-import { AddressBook, Contact } from '../models/contacts';
+import { BaseNextcloudClient, NextcloudRequestError } from './base.js';
+import {
+  AddressBook,
+  Contact,
+  ContactDuplicateGroup,
+  ContactGroup,
+  ContactGroupUpdateResult,
+  ContactImportResult,
+  ContactMergeResult,
+  ContactPhoto,
+  ContactSearchField,
+  ContactSearchOptions,
+  ContactSearchResult,
+} from '../models/contacts.js';
 import { XMLParser } from 'fast-xml-parser';
+import { randomUUID } from 'crypto';
+import {
+  escapeICalText,
+  formatICalDateTimeUTC,
+  parseICalDateTime,
+  splitICalList,
+  unescapeICalText,
+} from '../utils/icalendar.js';
+import { findDuplicateClusters, normalizePhoneForMatching } from '../utils/contact-duplicates.js';
+import {
+  emailAddressForDisplay,
+  isValidEmailAddress,
+  normalizeEmailAddress,
+  normalizePhoneNumber,
+} from '../utils/contact-normalization.js';
+import {
+  buildTypeParams,
+  formatStructuredValue,
+  getVCardLabels,
+  getVCardPref,
+  getVCardProperties,
+  getVCardProperty,
+  getVCardText,
+  getVCardTypes,
+  getVCardVersion,
+  parseStructuredValue,
+  parseVCardData,
+  serializeVCard,
+  setVCardProperties,
+  setVCardText,
+  unfoldVCardLines,
+  VCard,
+  VCardProperty,
+} from '../utils/vcard.js';
+
+const SEARCH_FIELDS: ContactSearchField[] = ['fn', 'email', 'tel', 'org'];
+
+/**
+ * Whether a search text looks like (part of) a phone number
+ */
+function isPhoneQuery(query: string): boolean {
+  return /^[\d\s()+\-./]+$/.test(query) && query.replace(/\D/g, '').length >= 3;
+}
+
+/**
+ * Components of a structured value (N, ADR) as contacts expose them, with the
+ * values of each component joined by `separator`
+ */
+function structuredComponents(value: string, separator: string): string[] {
+  return parseStructuredValue(value).map(component => component.join(separator).trim());
+}
+
+/**
+ * ORG as contacts expose it: the organization followed by its units
+ */
+function organizationText(value: string): string {
+  return structuredComponents(value, ' ').filter(Boolean).join(', ');
+}
+
+// Largest photo embedded in a contact
+const MAX_PHOTO_BYTES = 1024 * 1024;
+
+// TEL parameter holding the E.164 form of the number, so the server can match
+// numbers regardless of how they were written
+const E164_PARAM = 'X-E164';
+
+// Properties that can occur several times; a merge keeps every distinct value
+const MERGED_LIST_PROPERTIES = ['EMAIL', 'TEL', 'ADR', 'URL', 'IMPP', 'X-SOCIALPROFILE', 'RELATED'];
+// Properties with a single value; a merge fills them in only where the primary contact has none
+const MERGED_SINGLE_PROPERTIES = ['FN', 'N', 'ORG', 'TITLE', 'ROLE', 'BDAY', 'ANNIVERSARY', 'GENDER', 'PHOTO'];
+
+// Since REPORT is not supported everywhere, PROPFIND is used to discover vCard files
+const CONTACTS_PROPFIND_XML = `<?xml version="1.0" encoding="utf-8" ?>
+<d:propfind xmlns:d="DAV:" xmlns:card="urn:ietf:params:xml:ns:carddav">
+  <d:prop>
+    <d:getetag />
+    <d:getcontenttype />
+    <card:address-data />
+  </d:prop>
+</d:propfind>`;
+
+/**
+ * Recognize common image formats from the first bytes of base64 data
+ */
+function detectImageType(base64: string): string | undefined {
+  const header = Buffer.from(base64.substring(0, 24), 'base64');
+  if (header[0] === 0xff && header[1] === 0xd8) return 'image/jpeg';
+  if (header.subarray(0, 4).toString('latin1') === '\x89PNG') return 'image/png';
+  if (header.subarray(0, 3).toString('latin1') === 'GIF') return 'image/gif';
+  if (header.subarray(0, 4).toString('latin1') === 'RIFF' && header.subarray(8, 12).toString('latin1') === 'WEBP') return 'image/webp';
+  return undefined;
+}
 
 export class ContactsClient extends BaseNextcloudClient {
   private xmlParser = new XMLParser({
@@ -101,29 +205,22 @@ export class ContactsClient extends BaseNextcloudClient {
     });
   }
 
-  public async listContacts(addressBookId: string): Promise<Contact[]> {
-    // Since REPORT is not supported, use PROPFIND to discover vCard files
-    const propfindXml = `<?xml version="1.0" encoding="utf-8" ?>
-<d:propfind xmlns:d="DAV:" xmlns:card="urn:ietf:params:xml:ns:carddav">
-  <d:prop>
-    <d:getetag />
-    <d:getcontenttype />
-    <card:address-data />
-  </d:prop>
-</d:propfind>`;
-
+  public async listContacts(addressBookId: string, group?: string): Promise<Contact[]> {
     try {
       const response = await this.makeWebDAVRequest({
         method: 'PROPFIND',
         url: `/remote.php/dav/addressbooks/users/{username}/${addressBookId}/`,
-        data: propfindXml,
+        data: CONTACTS_PROPFIND_XML,
         headers: {
           'Depth': '1',
         },
       });
 
       console.log('Raw contacts response:', response);
-      return this.parseContactsResponse(response);
+      const contacts = this.parseContactsResponse(response);
+      return group === undefined
+        ? contacts
+        : contacts.filter(contact => contact.categories?.includes(group.trim()));
     } catch (error) {
       console.error('Error listing contacts:', error);
       console.error('Error details:', error);
@@ -131,32 +228,405 @@ export class ContactsClient extends BaseNextcloudClient {
     }
   }
 
+  /**
+   * Groups used in an address book (Nextcloud Contacts stores them as vCard
+   * CATEGORIES), with the number of contacts in each
+   */
+  public async listContactGroups(addressBookId: string): Promise<ContactGroup[]> {
+    const counts = new Map<string, number>();
+    for (const contact of await this.fetchContacts(addressBookId)) {
+      for (const category of new Set(contact.categories)) {
+        counts.set(category, (counts.get(category) || 0) + 1);
+      }
+    }
+
+    return [...counts.entries()]
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Add contacts to a group. Contacts already in it are left untouched.
+   */
+  public async addContactsToGroup(addressBookId: string, group: string, contactIds: string[]): Promise<ContactGroupUpdateResult> {
+    return this.updateContactGroups(addressBookId, contactIds, group, (categories, name) =>
+      categories.includes(name) ? categories : [...categories, name]
+    );
+  }
+
+  /**
+   * Remove contacts from a group. Contacts not in it are left untouched.
+   */
+  public async removeContactsFromGroup(addressBookId: string, group: string, contactIds: string[]): Promise<ContactGroupUpdateResult> {
+    return this.updateContactGroups(addressBookId, contactIds, group, (categories, name) =>
+      categories.filter(category => category !== name)
+    );
+  }
+
+  /**
+   * Search an address book with a CardDAV addressbook-query, so only matching
+   * contacts are transferred. Servers that reject the REPORT are searched by
+   * listing the address book and filtering locally.
+   */
+  public async searchContacts(addressBookId: string, options: ContactSearchOptions): Promise<ContactSearchResult> {
+    const query = options.query.trim();
+    if (!query) {
+      throw new Error('Search query must not be empty');
+    }
+
+    const searchIn = options.searchIn?.length ? options.searchIn : SEARCH_FIELDS;
+    const limit = options.limit ?? 25;
+    const offset = options.offset ?? 0;
+
+    let contacts: Contact[];
+    let source: ContactSearchResult['source'] = 'server';
+    try {
+      const response = await this.makeStrictWebDAVRequest({
+        method: 'REPORT',
+        url: `/remote.php/dav/addressbooks/users/{username}/${addressBookId}/`,
+        data: this.buildAddressBookQueryXml(query, searchIn),
+        headers: {
+          'Depth': '1',
+        },
+      });
+      contacts = this.parseContactsResponse(response.data).filter(contact => this.matchesContact(contact, query, searchIn));
+    } catch (error) {
+      console.warn(`addressbook-query failed for ${addressBookId}, filtering locally:`, error);
+      source = 'local';
+      contacts = (await this.fetchContacts(addressBookId)).filter(contact => this.matchesContact(contact, query, searchIn));
+    }
+
+    // Servers return matches in no particular order; sort so pages are stable
+    contacts.sort((a, b) => (a.fn || '').localeCompare(b.fn || '') || a.id.localeCompare(b.id));
+    const page = contacts.slice(offset, offset + limit);
+
+    return {
+      query,
+      total: contacts.length,
+      offset,
+      limit,
+      hasMore: offset + page.length < contacts.length,
+      source,
+      contacts: options.fields?.length ? page.map(contact => this.projectContact(contact, options.fields!)) : page,
+    };
+  }
+
   public async createContact(
     addressBookId: string,
     contact: Partial<Contact>
   ): Promise<Contact> {
-    // Generate a unique contact ID
-    const contactId = `contact-${Date.now()}.vcf`;
-    
+    const uid = contact.uid || randomUUID();
+    const contactId = this.getResourceName(uid);
+
     // Create vCard content
-    const vcard = this.createVCard(contact);
+    const vcard = this.createVCard(contact, uid);
 
-    await this.makeWebDAVRequest({
-      method: 'PUT',
-      url: `/remote.php/dav/addressbooks/users/{username}/${addressBookId}/${contactId}`,
-      data: vcard,
-      headers: {
-        'Content-Type': 'text/vcard; charset=utf-8',
-      },
+    let etag: string | undefined;
+    try {
+      const response = await this.makeStrictWebDAVRequest({
+        method: 'PUT',
+        url: `/remote.php/dav/addressbooks/users/{username}/${addressBookId}/${contactId}`,
+        data: vcard,
+        headers: {
+          'Content-Type': 'text/vcard; charset=utf-8',
+          'If-None-Match': '*',
+        },
+      });
+      etag = response.headers['etag'] || undefined;
+    } catch (error) {
+      if (error instanceof NextcloudRequestError && error.status === 412) {
+        throw new NextcloudRequestError(
+          `A contact with UID ${uid} already exists in address book ${addressBookId}. Use a different UID or update the existing contact instead.`,
+          412,
+          error.data
+        );
+      }
+      throw error;
+    }
+
+    return {
+      id: contactId,
+      addressBookId,
+      uri: contactId,
+      etag,
+      ...this.parseVCard(vcard),
+    };
+  }
+
+  /**
+   * Export all contacts of an address book as one multi-card .vcf, each card as stored on the server
+   */
+  public async exportAddressBook(addressBookId: string): Promise<string> {
+    const objects = await this.fetchContactObjects(addressBookId);
+    return objects
+      .map(object => object.data.replace(/\r?\n/g, '\r\n').trim() + '\r\n')
+      .join('');
+  }
+
+  /**
+   * Import the cards of a .vcf file. Cards are matched to existing contacts by
+   * UID: new ones are created, changed ones updated and identical ones skipped.
+   */
+  public async importAddressBook(
+    addressBookId: string,
+    vcfData: string,
+    options: { skipExisting?: boolean } = {}
+  ): Promise<ContactImportResult> {
+    const cards = parseVCardData(vcfData);
+    if (cards.length === 0) {
+      throw new Error('No vCard found in the data');
+    }
+
+    const existing = new Map<string, { id: string; etag?: string; data: string }>();
+    for (const object of await this.fetchContactObjects(addressBookId)) {
+      const uid = getVCardProperty(parseVCardData(object.data)[0] || { properties: [] }, 'UID')?.value.trim();
+      if (uid) {
+        existing.set(uid, object);
+      }
+    }
+
+    const result: ContactImportResult = { created: 0, updated: 0, skipped: 0, failed: 0, cards: [] };
+    for (const card of cards) {
+      // Cards without UID are common in CRM exports; give them one so they can be stored
+      let uid = getVCardProperty(card, 'UID')?.value.trim();
+      if (!uid) {
+        uid = randomUUID();
+        setVCardProperties(card, 'UID', [{ name: 'UID', params: {}, value: uid }]);
+      }
+      const fn = getVCardText(getVCardProperty(card, 'FN'));
+      this.normalizeVCardPhones(card);
+      const vcard = serializeVCard(card);
+      const current = existing.get(uid);
+
+      try {
+        if (!current) {
+          const contactId = this.getResourceName(uid);
+          const response = await this.makeStrictWebDAVRequest({
+            method: 'PUT',
+            url: `/remote.php/dav/addressbooks/users/{username}/${addressBookId}/${contactId}`,
+            data: vcard,
+            headers: {
+              'Content-Type': 'text/vcard; charset=utf-8',
+              'If-None-Match': '*',
+            },
+          });
+          // A later card with the same UID updates this one
+          existing.set(uid, { id: contactId, etag: response.headers['etag'] || undefined, data: vcard });
+          result.created++;
+          result.cards.push({ uid, fn, contactId, action: 'created' });
+        } else if (options.skipExisting || this.isSameVCardData(current.data, vcard)) {
+          result.skipped++;
+          result.cards.push({ uid, fn, contactId: current.id, action: 'skipped' });
+        } else {
+          const response = await this.makeStrictWebDAVRequest({
+            method: 'PUT',
+            url: `/remote.php/dav/addressbooks/users/{username}/${addressBookId}/${current.id}`,
+            data: vcard,
+            headers: {
+              'Content-Type': 'text/vcard; charset=utf-8',
+              ...(current.etag && { 'If-Match': current.etag }),
+            },
+          });
+          existing.set(uid, { id: current.id, etag: response.headers['etag'] || undefined, data: vcard });
+          result.updated++;
+          result.cards.push({ uid, fn, contactId: current.id, action: 'updated' });
+        }
+      } catch (error) {
+        console.warn(`Importing ${uid} into address book ${addressBookId} failed:`, error);
+        result.failed++;
+        result.cards.push({ uid, fn, action: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Find contacts that probably describe the same person, based on shared
+   * email addresses and phone numbers and similar names
+   */
+  public async findDuplicateContacts(addressBookId: string, minConfidence: number = 0.6): Promise<ContactDuplicateGroup[]> {
+    const contacts = await this.fetchContacts(addressBookId);
+    return findDuplicateClusters(contacts, minConfidence).map(cluster => ({
+      confidence: cluster.confidence,
+      reasons: cluster.reasons,
+      contacts: cluster.contacts.map(contact => this.projectContact(contact, ['fn', 'email', 'tel', 'org', 'lastmodified'])),
+    }));
+  }
+
+  /**
+   * Merge contacts into the primary one (the first by default) and delete the
+   * others. The primary contact keeps its values; the others add emails,
+   * phones, addresses, groups and anything the primary contact is missing.
+   * A dry run only returns the merged contact.
+   */
+  public async mergeContacts(
+    addressBookId: string,
+    contactIds: string[],
+    options: { primaryId?: string; dryRun?: boolean } = {}
+  ): Promise<ContactMergeResult> {
+    const ids = [...new Set(contactIds)];
+    if (ids.length < 2) {
+      throw new Error('At least two different contacts are needed for a merge');
+    }
+    const primaryId = options.primaryId ?? ids[0];
+    if (!ids.includes(primaryId)) {
+      throw new Error(`The primary contact ${primaryId} must be one of the contacts to merge`);
+    }
+
+    const otherIds = ids.filter(id => id !== primaryId);
+    const others = await Promise.all(otherIds.map(id => this.fetchContactCard(addressBookId, id)));
+
+    if (options.dryRun) {
+      const { card } = await this.fetchContactCard(addressBookId, primaryId);
+      this.mergeVCards(card, others.map(other => other.card));
+      return {
+        dryRun: true,
+        primaryId,
+        contact: { id: primaryId, addressBookId, uri: primaryId, ...this.mapVCard(card) },
+        wouldDelete: otherIds,
+      };
+    }
+
+    const result = await this.patchContact(addressBookId, primaryId, undefined, card => {
+      this.mergeVCards(card, others.map(other => other.card));
+    });
+
+    for (const [index, id] of otherIds.entries()) {
+      try {
+        await this.makeStrictWebDAVRequest({
+          method: 'DELETE',
+          url: `/remote.php/dav/addressbooks/users/{username}/${addressBookId}/${id}`,
+          headers: {
+            ...(others[index].etag && { 'If-Match': others[index].etag }),
+          },
+        });
+      } catch (error) {
+        if (error instanceof NextcloudRequestError && error.status === 412) {
+          throw new NextcloudRequestError(
+            `${id} was modified by another client while merging; it was merged into ${primaryId} but not deleted. Review it and delete it manually.`,
+            412,
+            error.data
+          );
+        }
+        throw error;
+      }
+    }
+
+    return {
+      dryRun: false,
+      primaryId,
+      contact: { id: primaryId, addressBookId, uri: primaryId, etag: result.etag, ...this.parseVCard(result.vcard) },
+      deleted: otherIds,
+    };
+  }
+
+  /**
+   * Update a contact. Only the supplied fields are changed; properties this
+   * client does not know about (photos, custom fields, ...) are kept as they are.
+   */
+  public async updateContact(
+    addressBookId: string,
+    contactId: string,
+    contact: Partial<Contact>
+  ): Promise<Contact> {
+    const result = await this.patchContact(addressBookId, contactId, contact.etag, card => {
+      this.patchVCard(card, contact);
     });
 
     return {
       id: contactId,
       addressBookId,
-      ...contact,
+      uri: contactId,
+      etag: result.etag,
+      ...this.parseVCard(result.vcard),
     };
   }
 
+  /**
+   * The contact's photo. Embedded photos are returned as base64 data, photos
+   * stored elsewhere as their URL.
+   */
+  public async getContactPhoto(addressBookId: string, contactId: string): Promise<ContactPhoto | undefined> {
+    const { card } = await this.fetchContactCard(addressBookId, contactId);
+    const photo = getVCardProperty(card, 'PHOTO');
+    if (!photo) {
+      return undefined;
+    }
+
+    const value = photo.value.trim();
+    // vCard 4 (and Nextcloud with 3.0): data:image/jpeg;base64,...
+    const dataUri = value.match(/^data:([^;,]*)(;base64)?,(.*)$/is);
+    if (dataUri) {
+      let data: string;
+      try {
+        data = dataUri[2] ? dataUri[3] : Buffer.from(decodeURIComponent(dataUri[3]), 'latin1').toString('base64');
+      } catch {
+        // Malformed percent-encoding; hand back the URI as stored
+        return { url: value };
+      }
+      return { mediaType: dataUri[1] || detectImageType(data), data: data.replace(/\s/g, '') };
+    }
+
+    // vCard 3: PHOTO;ENCODING=b;TYPE=JPEG:..., vCard 2.1: ENCODING=BASE64
+    const encoding = photo.params.ENCODING?.[0]?.toLowerCase();
+    if (encoding === 'b' || encoding === 'base64') {
+      const data = value.replace(/\s/g, '');
+      const type = photo.params.TYPE?.[0]?.toLowerCase();
+      return { mediaType: type ? (type.includes('/') ? type : `image/${type}`) : detectImageType(data), data };
+    }
+
+    return { url: value };
+  }
+
+  /**
+   * Embed a photo in a contact, replacing any existing one. Only the PHOTO
+   * property is rewritten; everything else is kept byte for byte.
+   */
+  public async setContactPhoto(
+    addressBookId: string,
+    contactId: string,
+    photo: { data: string; mediaType?: string },
+    etag?: string
+  ): Promise<Contact> {
+    const data = photo.data.replace(/^data:[^,]*,/, '').replace(/\s/g, '');
+    if (!data || !/^[A-Za-z0-9+/]+={0,2}$/.test(data)) {
+      throw new Error('Photo data must be base64 encoded');
+    }
+    // The photo is embedded in the vCard, which every client downloads in full
+    const size = Math.floor(data.length * 3 / 4) - (data.match(/=+$/)?.[0].length || 0);
+    if (size > MAX_PHOTO_BYTES) {
+      throw new Error(`Photo is too large (${Math.round(size / 1024)} KB); scale it down to at most ${MAX_PHOTO_BYTES / 1024} KB`);
+    }
+
+    const mediaType = (photo.mediaType || detectImageType(data))?.toLowerCase();
+    if (!mediaType?.startsWith('image/')) {
+      throw new Error('Photo data is not a recognized image (JPEG, PNG, GIF or WebP); pass its mediaType explicitly');
+    }
+
+    const result = await this.patchContact(addressBookId, contactId, etag, card => {
+      const property: VCardProperty = getVCardVersion(card).startsWith('4')
+        ? { name: 'PHOTO', params: {}, value: `data:${mediaType};base64,${data}` }
+        : { name: 'PHOTO', params: { ENCODING: ['b'], TYPE: [mediaType.substring(6).toUpperCase()] }, value: data };
+      setVCardProperties(card, 'PHOTO', [property]);
+      setVCardProperties(card, 'REV', [{ name: 'REV', params: {}, value: formatICalDateTimeUTC(new Date()) }]);
+    });
+
+    return { id: contactId, addressBookId, uri: contactId, etag: result.etag, ...this.parseVCard(result.vcard) };
+  }
+
+  public async removeContactPhoto(addressBookId: string, contactId: string, etag?: string): Promise<Contact> {
+    const result = await this.patchContact(addressBookId, contactId, etag, card => {
+      if (!getVCardProperty(card, 'PHOTO')) {
+        return false;
+      }
+      setVCardProperties(card, 'PHOTO', []);
+      setVCardProperties(card, 'REV', [{ name: 'REV', params: {}, value: formatICalDateTimeUTC(new Date()) }]);
+    });
+
+    return { id: contactId, addressBookId, uri: contactId, etag: result.etag, ...this.parseVCard(result.vcard) };
+  }
+
   public async deleteContact(
     addressBookId: string,
     contactId: string
@@ -167,6 +637,215 @@ export class ContactsClient extends BaseNextcloudClient {
     });
   }
 
+  private async fetchContactObjects(addressBookId: string): Promise<{ id: string; href: string; etag: string; data: string }[]> {
+    const response = await this.makeStrictWebDAVRequest({
+      method: 'PROPFIND',
+      url: `/remote.php/dav/addressbooks/users/{username}/${addressBookId}/`,
+      data: CONTACTS_PROPFIND_XML,
+      headers: {
+        'Depth': '1',
+      },
+    });
+    return this.parseContactObjects(response.data);
+  }
+
+  /**
+   * All contacts of an address book. Unlike listContacts this fails when the
+   * address book cannot be read, instead of returning no contacts.
+   */
+  private async fetchContacts(addressBookId: string): Promise<Contact[]> {
+    return this.toContacts(await this.fetchContactObjects(addressBookId));
+  }
+
+  private getResourceName(uid: string): string {
+    return `${uid.replace(/[^A-Za-z0-9._@-]/g, '-')}.vcf`;
+  }
+
+  /**
+   * Compare two vCards ignoring line endings, folding and the fields that
+   * change on every write (REV, PRODID)
+   */
+  private isSameVCardData(a: string, b: string): boolean {
+    const normalize = (data: string) => unfoldVCardLines(data)
+      .filter(line => !/^(REV|PRODID)[;:]/i.test(line))
+      .join('\n');
+    return normalize(a) === normalize(b);
+  }
+
+  private async fetchContactCard(
+    addressBookId: string,
+    contactId: string
+  ): Promise<{ card: VCard; vcard: string; etag?: string }> {
+    const response = await this.makeStrictWebDAVRequest({
+      method: 'GET',
+      url: `/remote.php/dav/addressbooks/users/{username}/${addressBookId}/${contactId}`,
+    });
+
+    const [card] = parseVCardData(response.data);
+    if (!card) {
+      throw new Error(`Contact ${contactId} in address book ${addressBookId} does not contain a vCard`);
+    }
+    return { card, vcard: response.data, etag: response.headers['etag'] || undefined };
+  }
+
+  /**
+   * Read a contact, let `modify` change its vCard and write it back. The write
+   * only succeeds if nobody changed the contact since the given (or fetched) etag.
+   * Nothing is written when `modify` returns false.
+   */
+  private async patchContact(
+    addressBookId: string,
+    contactId: string,
+    etag: string | undefined,
+    modify: (card: VCard) => void | false | Promise<void | false>
+  ): Promise<{ vcard: string; etag?: string }> {
+    const url = `/remote.php/dav/addressbooks/users/{username}/${addressBookId}/${contactId}`;
+    const current = await this.fetchContactCard(addressBookId, contactId);
+
+    if (await modify(current.card) === false) {
+      return { vcard: current.vcard, etag: current.etag };
+    }
+
+    const ifMatch = etag || current.etag;
+    const vcard = serializeVCard(current.card);
+
+    try {
+      const response = await this.makeStrictWebDAVRequest({
+        method: 'PUT',
+        url,
+        data: vcard,
+        headers: {
+          'Content-Type': 'text/vcard; charset=utf-8',
+          ...(ifMatch && { 'If-Match': ifMatch }),
+        },
+      });
+      return { vcard, etag: response.headers['etag'] || undefined };
+    } catch (error) {
+      if (error instanceof NextcloudRequestError && error.status === 412) {
+        throw new NextcloudRequestError(
+          `${contactId} was modified by another client since it was read (etag ${ifMatch}). Fetch it again and retry the update.`,
+          412,
+          error.data
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async updateContactGroups(
+    addressBookId: string,
+    contactIds: string[],
+    group: string,
+    change: (categories: string[], group: string) => string[]
+  ): Promise<ContactGroupUpdateResult> {
+    const name = group.trim();
+    if (!name) {
+      throw new Error('Group name must not be empty');
+    }
+
+    // One contact failing (deleted, modified concurrently) does not stop the others
+    const result: ContactGroupUpdateResult = { group: name, updated: 0, unchanged: 0, failed: 0, contacts: [] };
+    for (const contactId of contactIds) {
+      try {
+        let changed = false;
+        const written = await this.patchContact(addressBookId, contactId, undefined, card => {
+          const categories = this.mapVCard(card).categories || [];
+          const updated = change(categories, name);
+          if (updated.length === categories.length) {
+            return false;
+          }
+          changed = true;
+          this.patchVCard(card, { categories: updated });
+        });
+        const contact = { id: contactId, addressBookId, uri: contactId, etag: written.etag, ...this.parseVCard(written.vcard) };
+        result[changed ? 'updated' : 'unchanged']++;
+        result.contacts.push({ contactId, action: changed ? 'updated' : 'unchanged', contact });
+      } catch (error) {
+        console.warn(`Updating group ${name} of ${contactId} in address book ${addressBookId} failed:`, error);
+        result.failed++;
+        result.contacts.push({ contactId, action: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Phone numbers are stored in whatever form they were entered, so they are
+   * also matched against the E.164 parameter written with them, by their
+   * digits without a trunk prefix. Numbers written by other clients lack the
+   * parameter until the contact is next updated here. Email addresses are
+   * also searched in their ASCII form.
+   */
+  private buildAddressBookQueryXml(query: string, searchIn: ContactSearchField[]): string {
+    const textMatch = (field: string, text: string) => `    <card:prop-filter name="${field}">
+      <card:text-match collation="i;unicode-casemap" match-type="contains">${this.escapeXml(text)}</card:text-match>
+    </card:prop-filter>`;
+
+    const filters = searchIn.flatMap(field => {
+      if (field === 'tel' && isPhoneQuery(query)) {
+        const digits = query.replace(/\D/g, '').replace(/^0+/, '');
+        return [textMatch('TEL', query), `    <card:prop-filter name="TEL">
+      <card:param-filter name="${E164_PARAM}">
+        <card:text-match collation="i;unicode-casemap" match-type="contains">${digits}</card:text-match>
+      </card:param-filter>
+    </card:prop-filter>`];
+      }
+      if (field === 'email' && normalizeEmailAddress(query) !== query.toLowerCase()) {
+        return [textMatch('EMAIL', query), textMatch('EMAIL', normalizeEmailAddress(query))];
+      }
+      return [textMatch(field.toUpperCase(), query)];
+    });
+
+    return `<?xml version="1.0" encoding="utf-8" ?>
+<card:addressbook-query xmlns:d="DAV:" xmlns:card="urn:ietf:params:xml:ns:carddav">
+  <d:prop>
+    <d:getetag />
+    <card:address-data />
+  </d:prop>
+  <card:filter test="anyof">
+${filters.join('\n')}
+  </card:filter>
+</card:addressbook-query>`;
+  }
+
+  /**
+   * Case-insensitive substring match, as the server's text-match does.
+   * Email addresses also match in their ASCII and Unicode forms, phone numbers
+   * in E.164 form or when only the digits agree (ignoring a trunk prefix).
+   */
+  private matchesContact(contact: Contact, query: string, searchIn: ContactSearchField[]): boolean {
+    const needle = query.toLowerCase();
+    const phone = isPhoneQuery(query) ? normalizePhoneNumber(query) : undefined;
+    const digits = query.replace(/\D/g, '').replace(/^0+/, '');
+    const values: Record<ContactSearchField, string[]> = {
+      fn: [contact.fn || ''],
+      email: (contact.email || []).flatMap(email => [email.value, normalizeEmailAddress(email.value), emailAddressForDisplay(email.value)]),
+      tel: (contact.tel || []).map(tel => tel.value),
+      org: contact.org || [],
+    };
+
+    return searchIn.some(field => values[field].some(value => {
+      if (value.toLowerCase().includes(needle) || (field === 'email' && value.includes(normalizeEmailAddress(query)))) {
+        return true;
+      }
+      if (field !== 'tel' || !isPhoneQuery(query)) {
+        return false;
+      }
+      return (!!phone && !!normalizePhoneNumber(value)?.includes(phone)) ||
+        (digits.length > 0 && value.replace(/\D/g, '').includes(digits));
+    }));
+  }
+
+  private projectContact(contact: Contact, fields: (keyof Contact)[]): Partial<Contact> {
+    const projected: Partial<Contact> = { id: contact.id };
+    for (const field of fields) {
+      if (contact[field] !== undefined) {
+        (projected as Record<string, unknown>)[field] = contact[field];
+      }
+    }
+    return projected;
+  }
+
   private parseAddressBooksResponse(xmlResponse: string): AddressBook[] {
     try {
       const parsed = this.xmlParser.parse(xmlResponse);
@@ -232,9 +911,25 @@ export class ContactsClient extends BaseNextcloudClient {
   }
 
   private parseContactsResponse(xmlResponse: string): Contact[] {
+    return this.toContacts(this.parseContactObjects(xmlResponse));
+  }
+
+  private toContacts(objects: { id: string; href: string; etag: string; data: string }[]): Contact[] {
+    return objects.map(object => ({
+      id: object.id,
+      etag: object.etag,
+      uri: object.href,
+      ...this.parseVCard(object.data),
+    }));
+  }
+
+  /**
+   * The vCard resources of a multistatus response, with their raw vCard data
+   */
+  private parseContactObjects(xmlResponse: string): { id: string; href: string; etag: string; data: string }[] {
     try {
       const parsed = this.xmlParser.parse(xmlResponse);
-      const contacts: Contact[] = [];
+      const contacts: { id: string; href: string; etag: string; data: string }[] = [];
 
       console.log('Parsed XML structure:', JSON.stringify(parsed, null, 2));
 
@@ -296,7 +991,6 @@ export class ContactsClient extends BaseNextcloudClient {
           
           // Decode HTML entities
           const decodedVCard = this.decodeHtmlEntities(addressData);
-          const contact = this.parseVCard(decodedVCard);
           const pathParts = href.split('/');
           const id = pathParts[pathParts.length - 1];
           const etag = prop['d:getetag'] ||
@@ -304,9 +998,9 @@ export class ContactsClient extends BaseNextcloudClient {
                       prop.getetag || '';
           contacts.push({
             id,
+            href,
             etag,
-            uri: href,
-            ...contact
+            data: decodedVCard,
           });
         } else if (href) {
           console.log('Skipping non-vCard resource:', href, {
@@ -326,81 +1020,354 @@ export class ContactsClient extends BaseNextcloudClient {
   }
 
   private parseVCard(vcardData: string): Partial<Contact> {
-    const contact: Partial<Contact> = {};
-    const lines = vcardData.split(/\r?\n/);
-
-    for (const line of lines) {
-      const [property, value] = line.split(':');
-      if (!property || !value) continue;
+    const [card] = parseVCardData(vcardData);
+    return card ? this.mapVCard(card) : {};
+  }
 
-      const propName = property.split(';')[0];
+  private mapVCard(card: VCard): Partial<Contact> {
+    const contact: Partial<Contact> = {};
+    const labels = getVCardLabels(card);
+    const details = (property: VCardProperty) => {
+      const types = getVCardTypes(property);
+      const pref = getVCardPref(property);
+      const label = property.group ? labels.get(property.group.toLowerCase()) : undefined;
+      return {
+        ...(types.length && { types }),
+        ...(pref !== undefined && { pref }),
+        ...(label && { label }),
+      };
+    };
 
-      switch (propName) {
+    for (const property of card.properties) {
+      switch (property.name) {
+        case 'VERSION':
+          contact.version = property.value.trim();
+          break;
+        case 'UID':
+          contact.uid = property.value.trim();
+          break;
         case 'FN':
-          contact.fn = value;
+          contact.fn = getVCardText(property);
+          break;
+        case 'N': {
+          const [family, given, additional, prefixes, suffixes] = structuredComponents(property.value, ' ');
+          contact.n = {
+            ...(family && { familyName: family }),
+            ...(given && { givenName: given }),
+            ...(additional && { additionalNames: additional }),
+            ...(prefixes && { honorificPrefixes: prefixes }),
+            ...(suffixes && { honorificSuffixes: suffixes }),
+          };
+          break;
+        }
+        case 'NICKNAME':
+          contact.nickname = [
+            ...(contact.nickname || []),
+            ...splitICalList(property.value).map(unescapeICalText).map(name => name.trim()).filter(Boolean),
+          ];
           break;
         case 'EMAIL':
           if (!contact.email) contact.email = [];
-          contact.email.push(value);
+          contact.email.push(this.withNormalized(getVCardText(property)!.trim(), normalizeEmailAddress, details(property)));
           break;
         case 'TEL':
           if (!contact.tel) contact.tel = [];
-          contact.tel.push(value);
+          // vCard 4 allows tel: URIs
+          contact.tel.push(this.withNormalized(getVCardText(property)!.trim().replace(/^tel:/i, ''), normalizePhoneNumber, details(property)));
           break;
-        case 'ADR':
+        case 'ADR': {
+          const [poBox, extended, street, locality, region, postalCode, country] = structuredComponents(property.value, ', ');
           if (!contact.adr) contact.adr = [];
-          contact.adr.push(value);
+          contact.adr.push({
+            ...(poBox && { poBox }),
+            ...(extended && { extended }),
+            ...(street && { street }),
+            ...(locality && { locality }),
+            ...(region && { region }),
+            ...(postalCode && { postalCode }),
+            ...(country && { country }),
+            ...details(property),
+          });
+          break;
+        }
+        case 'ORG': {
+          const org = organizationText(property.value);
+          if (org) {
+            if (!contact.org) contact.org = [];
+            contact.org.push(org);
+          }
+          break;
+        }
+        case 'TITLE':
+          contact.title = getVCardText(property);
+          break;
+        case 'ROLE':
+          contact.role = getVCardText(property);
+          break;
+        case 'BDAY':
+          contact.bday = property.value.trim();
           break;
-        case 'ORG':
-          if (!contact.org) contact.org = [];
-          contact.org.push(value);
+        case 'URL':
+          if (!contact.url) contact.url = [];
+          contact.url.push(getVCardText(property)!.trim());
           break;
         case 'NOTE':
-          contact.note = value;
+          contact.note = getVCardText(property);
+          break;
+        case 'PHOTO':
+          contact.hasPhoto = true;
+          break;
+        case 'CATEGORIES':
+          contact.categories = [
+            ...(contact.categories || []),
+            ...splitICalList(property.value).map(category => unescapeICalText(category).trim()).filter(Boolean),
+          ];
           break;
+        case 'REV': {
+          const revision = parseICalDateTime(property.value);
+          if (revision) {
+            contact.lastmodified = Math.floor(revision.getTime() / 1000);
+          }
+          break;
+        }
       }
     }
 
     return contact;
   }
 
-  private createVCard(contact: Partial<Contact>): string {
-    let vcard = 'BEGIN:VCARD\nVERSION:3.0\n';
+  private createVCard(contact: Partial<Contact>, uid: string): string {
+    const card: VCard = {
+      properties: [
+        { name: 'VERSION', params: {}, value: '3.0' },
+        { name: 'PRODID', params: {}, value: '-//Nextcloud MCP//EN' },
+        { name: 'UID', params: {}, value: uid },
+      ],
+    };
+
+    this.patchVCard(card, contact);
+    return serializeVCard(card);
+  }
+
+  /**
+   * Write the supplied contact fields into a vCard, leaving other properties
+   * alone. Entries that already exist with the same value and types keep
+   * their original line, including groups and labels. Structured values are
+   * compared the way mapVCard exposes them, so echoing a contact back does not
+   * flatten components (ORG "Acme;Sales" is exposed as "Acme, Sales").
+   */
+  private patchVCard(card: VCard, contact: Partial<Contact>): void {
+    const version = getVCardVersion(card);
+    const replace = (name: string, properties: VCardProperty[], key: (property: VCardProperty) => string = property => property.value) => {
+      const existing = getVCardProperties(card, name);
+      setVCardProperties(card, name, properties.map(property =>
+        existing.find(candidate => key(candidate) === key(property) && this.sameTypes(candidate, property)) || property
+      ));
+    };
+    const structuredKey = (separator: string) => (property: VCardProperty) => {
+      const components = structuredComponents(property.value, separator);
+      while (components.length > 0 && !components[components.length - 1]) components.pop();
+      return JSON.stringify(components);
+    };
 
-    if (contact.fn) {
-      vcard += `FN:${contact.fn}\n`;
+    if (contact.fn !== undefined) {
+      setVCardText(card, 'FN', contact.fn);
     }
 
-    if (contact.email) {
-      for (const email of contact.email) {
-        vcard += `EMAIL:${email}\n`;
-      }
+    if (contact.n !== undefined) {
+      const n = contact.n;
+      replace('N', [{
+        name: 'N',
+        params: {},
+        value: formatStructuredValue([n.familyName, n.givenName, n.additionalNames, n.honorificPrefixes, n.honorificSuffixes]),
+      }], structuredKey(' '));
+    } else if (contact.fn && !getVCardProperty(card, 'N')) {
+      // vCard 3.0 requires N; derive it from the full name
+      const parts = contact.fn.trim().split(/\s+/);
+      const family = parts.length > 1 ? parts.pop() : undefined;
+      setVCardProperties(card, 'N', [{ name: 'N', params: {}, value: formatStructuredValue([family, parts.join(' '), '', '', '']) }]);
     }
 
-    if (contact.tel) {
-      for (const tel of contact.tel) {
-        vcard += `TEL:${tel}\n`;
-      }
+    if (contact.nickname !== undefined) {
+      replace('NICKNAME', contact.nickname.length
+        ? [{ name: 'NICKNAME', params: {}, value: contact.nickname.map(escapeICalText).join(',') }]
+        : []);
     }
 
-    if (contact.adr) {
-      for (const adr of contact.adr) {
-        vcard += `ADR:${adr}\n`;
+    if (contact.email !== undefined) {
+      const invalid = contact.email.find(email => !isValidEmailAddress(email.value));
+      if (invalid) {
+        throw new Error(`Invalid email address: ${invalid.value}`);
       }
+      // The same address entered twice in different spellings is stored once, as first given
+      const emails = contact.email.filter((email, index, all) =>
+        all.findIndex(other => normalizeEmailAddress(other.value) === normalizeEmailAddress(email.value)) === index
+      );
+      replace('EMAIL', emails.map(email => ({
+        name: 'EMAIL',
+        params: buildTypeParams(email.types, email.pref, version),
+        value: escapeICalText(email.value.trim()),
+      })));
+    }
+
+    if (contact.tel !== undefined) {
+      const phoneKey = (value: string) => normalizePhoneNumber(value) || value.replace(/\D/g, '');
+      const phones = contact.tel.filter((tel, index, all) =>
+        all.findIndex(other => phoneKey(other.value) === phoneKey(tel.value)) === index
+      );
+      replace('TEL', phones.map(tel => this.withE164Param({
+        name: 'TEL',
+        params: buildTypeParams(tel.types, tel.pref, version),
+        value: escapeICalText(tel.value.trim()),
+      })), property => `${property.value}|${property.params[E164_PARAM]?.join(',') || ''}`);
     }
 
-    if (contact.org) {
-      for (const org of contact.org) {
-        vcard += `ORG:${org}\n`;
+    if (contact.adr !== undefined) {
+      replace('ADR', contact.adr.map(adr => ({
+        name: 'ADR',
+        params: buildTypeParams(adr.types, adr.pref, version),
+        value: formatStructuredValue([adr.poBox, adr.extended, adr.street, adr.locality, adr.region, adr.postalCode, adr.country]),
+      })), structuredKey(', '));
+    }
+
+    if (contact.org !== undefined) {
+      replace('ORG', contact.org.map(org => ({ name: 'ORG', params: {}, value: escapeICalText(org) })), property => organizationText(property.value));
+    }
+
+    if (contact.title !== undefined) {
+      setVCardText(card, 'TITLE', contact.title);
+    }
+
+    if (contact.role !== undefined) {
+      setVCardText(card, 'ROLE', contact.role);
+    }
+
+    if (contact.bday !== undefined) {
+      setVCardProperties(card, 'BDAY', contact.bday ? [{ name: 'BDAY', params: {}, value: contact.bday.trim() }] : []);
+    }
+
+    if (contact.url !== undefined) {
+      replace('URL', contact.url.map(url => ({ name: 'URL', params: {}, value: escapeICalText(url.trim()) })));
+    }
+
+    if (contact.note !== undefined) {
+      setVCardText(card, 'NOTE', contact.note);
+    }
+
+    if (contact.categories !== undefined) {
+      const categories = [...new Set(contact.categories.map(category => category.trim()).filter(Boolean))];
+      replace('CATEGORIES', categories.length
+        ? [{ name: 'CATEGORIES', params: {}, value: categories.map(escapeICalText).join(',') }]
+        : []);
+    }
+
+    setVCardProperties(card, 'REV', [{ name: 'REV', params: {}, value: formatICalDateTimeUTC(new Date()) }]);
+  }
+
+  /**
+   * Copy what the source cards add into the target card. Grouped properties
+   * (item1.EMAIL with its item1.X-ABLabel) get a group name unused in the target.
+   */
+  private mergeVCards(target: VCard, sources: VCard[]): void {
+    const mergeKey = (property: VCardProperty) => {
+      const text = (getVCardText(property) || '').trim();
+      switch (property.name) {
+        case 'EMAIL':
+          return normalizeEmailAddress(text);
+        case 'TEL':
+          return normalizePhoneForMatching(text) || text.replace(/\D/g, '');
+        default:
+          return text.toLowerCase();
+      }
+    };
+    const usedGroups = new Set(target.properties.map(property => property.group?.toLowerCase()).filter(Boolean));
+    let nextGroup = 1;
+
+    for (const source of sources) {
+      for (const property of source.properties) {
+        const isList = MERGED_LIST_PROPERTIES.includes(property.name);
+        if (isList) {
+          const key = mergeKey(property);
+          if (getVCardProperties(target, property.name).some(existing => mergeKey(existing) === key)) continue;
+        } else if (!MERGED_SINGLE_PROPERTIES.includes(property.name) || getVCardProperty(target, property.name)) {
+          continue;
+        }
+
+        if (!property.group) {
+          target.properties.push(property);
+          continue;
+        }
+
+        while (usedGroups.has(`item${nextGroup}`)) nextGroup++;
+        const group = `item${nextGroup}`;
+        usedGroups.add(group);
+        const labels = getVCardProperties(source, 'X-ABLABEL')
+          .filter(label => label.group?.toLowerCase() === property.group!.toLowerCase());
+        // The original line carries the old group name, so these are written anew
+        for (const copied of [property, ...labels]) {
+          target.properties.push({ name: copied.name, params: copied.params, value: copied.value, group });
+        }
       }
     }
 
-    if (contact.note) {
-      vcard += `NOTE:${contact.note}\n`;
+    this.normalizeVCardPhones(target);
+
+    const contacts = [target, ...sources].map(card => this.mapVCard(card));
+    const note = [...new Set(contacts.map(contact => contact.note?.trim()).filter(Boolean))].join('\n\n');
+    this.patchVCard(target, {
+      nickname: [...new Set(contacts.flatMap(contact => contact.nickname || []))],
+      categories: contacts.flatMap(contact => contact.categories || []),
+      ...(note !== (contacts[0].note?.trim() || '') && { note }),
+    });
+  }
+
+  /**
+   * TEL property with its E164_PARAM set to the number's E.164 form (or
+   * removed when there is none). Unchanged properties are returned as they are,
+   * so they keep their original line.
+   */
+  private withE164Param(property: VCardProperty): VCardProperty {
+    const e164 = normalizePhoneNumber(getVCardText(property)!.trim().replace(/^tel:/i, ''));
+    if ((property.params[E164_PARAM]?.join(',') || undefined) === e164) {
+      return property;
     }
+    const params = Object.fromEntries(Object.entries(property.params).filter(([name]) => name !== E164_PARAM));
+    return {
+      name: property.name,
+      ...(property.group && { group: property.group }),
+      params: { ...params, ...(e164 && { [E164_PARAM]: [e164] }) },
+      value: property.value,
+    };
+  }
+
+  /**
+   * Give every TEL of a card written by other means than patchVCard (imports,
+   * merges) the same E.164 parameter
+   */
+  private normalizeVCardPhones(card: VCard): void {
+    card.properties = card.properties.map(property => property.name === 'TEL' ? this.withE164Param(property) : property);
+  }
+
+  private withNormalized<T extends object>(
+    value: string,
+    normalize: (value: string) => string | undefined,
+    details: T
+  ): { value: string; normalized?: string } & T {
+    const normalized = normalize(value);
+    return { value, ...(normalized && normalized !== value && { normalized }), ...details };
+  }
+
+  private sameTypes(a: VCardProperty, b: VCardProperty): boolean {
+    return getVCardTypes(a).sort().join(',') === getVCardTypes(b).sort().join(',') && getVCardPref(a) === getVCardPref(b);
+  }
 
-    vcard += 'END:VCARD';
-    return vcard;
+  private escapeXml(str: string): string {
+    return str
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
   }
 
   private decodeHtmlEntities(str: string): string {
@@ -0,0 +1,320 @@
+import { randomUUID } from 'crypto';
+import { CalendarClient } from './calendar.js';
+import { Calendar, CalendarObject } from '../models/calendar.js';
+import { Task, TaskFilter, TaskStatus } from '../models/tasks.js';
+import {
+  escapeICalText,
+  findICalComponents,
+  formatICalDateTimeUTC,
+  getICalParam,
+  getICalProperty,
+  ICalComponent,
+  isICalDate,
+  parseICalDateTime,
+  parseICalendarData,
+  serializeICalComponent,
+  setICalProperty,
+  splitICalList,
+  unescapeICalText,
+} from '../utils/icalendar.js';
+import { isDateOnly, isValidTimeZone } from '../utils/timezone.js';
+
+/**
+ * VTODO support for the CalDAV collections used by Nextcloud Tasks.
+ * Task lists are ordinary calendars that accept VTODO components.
+ */
+export class TasksClient extends CalendarClient {
+  public async listTaskLists(): Promise<Calendar[]> {
+    const calendars = await this.listCalendars();
+    // Servers that do not report the component set accept everything
+    return calendars.filter(calendar => !calendar.components || calendar.components.includes('VTODO'));
+  }
+
+  /**
+   * List the tasks of a task list, ordered like Nextcloud Tasks does for
+   * manual sorting (X-APPLE-SORT-ORDER), then by priority and due date
+   */
+  public async listTasks(calendarId: string, filter: TaskFilter = {}): Promise<Task[]> {
+    let objects: CalendarObject[];
+    try {
+      const response = await this.makeStrictWebDAVRequest({
+        method: 'REPORT',
+        url: `/remote.php/dav/calendars/{username}/${calendarId}/`,
+        data: this.buildCalendarQueryXml(undefined, undefined, undefined, 'VTODO'),
+        headers: {
+          'Depth': '1',
+        },
+      });
+      objects = this.parseCalendarObjects(response.data);
+    } catch (error) {
+      console.warn(`calendar-query REPORT failed for task list ${calendarId}, falling back to PROPFIND:`, error);
+      // Events in the same collection yield no VTODOs and drop out below
+      objects = await this.fetchCalendarObjects(calendarId);
+    }
+
+    const tasks = objects.flatMap(object =>
+      this.parseTodos(object.data).map(task => ({
+        ...task,
+        id: object.id,
+        etag: object.etag,
+        uri: object.uri,
+        calendarId,
+      }))
+    );
+
+    return tasks
+      .filter(task => !filter.status || filter.status.includes(task.status || 'NEEDS-ACTION'))
+      .filter(task => filter.parentUid === undefined || task.parentUid === filter.parentUid)
+      .sort(compareTasks);
+  }
+
+  public async createTask(calendarId: string, task: Partial<Task>): Promise<Task> {
+    if (task.timezone && !isValidTimeZone(task.timezone)) {
+      throw new Error(`Unknown timezone: ${task.timezone}. Use an IANA name such as "Europe/Berlin".`);
+    }
+
+    const uid = task.uid || randomUUID();
+    const taskId = this.getResourceName(uid);
+    const now = formatICalDateTimeUTC(new Date());
+
+    const vtodo: ICalComponent = {
+      name: 'VTODO',
+      properties: [
+        { name: 'UID', params: {}, value: uid },
+        { name: 'DTSTAMP', params: {}, value: now },
+        { name: 'CREATED', params: {}, value: now },
+        { name: 'STATUS', params: {}, value: 'NEEDS-ACTION' },
+      ],
+      components: [],
+    };
+    const vcalendar: ICalComponent = {
+      name: 'VCALENDAR',
+      properties: [
+        { name: 'VERSION', params: {}, value: '2.0' },
+        { name: 'PRODID', params: {}, value: '-//Nextcloud MCP//EN' },
+      ],
+      components: [vtodo],
+    };
+
+    this.patchTodoComponent(vcalendar, vtodo, task);
+    const icalendar = serializeICalComponent(vcalendar);
+    const etag = await this.putNewCalendarObject(calendarId, taskId, uid, icalendar);
+
+    return {
+      ...this.parseTodos(icalendar)[0],
+      id: taskId,
+      calendarId,
+      uri: taskId,
+      etag,
+    };
+  }
+
+  public async updateTask(calendarId: string, taskId: string, task: Partial<Task>): Promise<Task> {
+    const result = await this.patchCalendarObject(calendarId, taskId, 'VTODO', task.etag, (vcalendar, vtodo) => {
+      this.patchTodoComponent(vcalendar, vtodo, task);
+    });
+
+    return { ...this.parseTodos(result.icalendar)[0], id: taskId, calendarId, etag: result.etag };
+  }
+
+  /**
+   * Mark a task as completed, or reopen it
+   */
+  public async completeTask(calendarId: string, taskId: string, completed: boolean = true): Promise<Task> {
+    return this.updateTask(calendarId, taskId, { status: completed ? 'COMPLETED' : 'NEEDS-ACTION' });
+  }
+
+  /**
+   * Put tasks in the given order by assigning ascending sort orders
+   */
+  public async reorderTasks(calendarId: string, taskIds: string[]): Promise<Task[]> {
+    const tasks: Task[] = [];
+    for (const [index, taskId] of taskIds.entries()) {
+      tasks.push(await this.updateTask(calendarId, taskId, { sortOrder: index + 1 }));
+    }
+    return tasks;
+  }
+
+  public async deleteTask(calendarId: string, taskId: string): Promise<void> {
+    await this.assertWritableCalendar(calendarId);
+    await this.makeStrictWebDAVRequest({
+      method: 'DELETE',
+      url: `/remote.php/dav/calendars/{username}/${calendarId}/${taskId}`,
+    });
+  }
+
+  private parseTodos(icalData: string): Partial<Task>[] {
+    const components = parseICalendarData(icalData);
+    this.registerTimezones(components);
+    return findICalComponents(components, 'VTODO')
+      .filter(vtodo => !getICalProperty(vtodo, 'RECURRENCE-ID'))
+      .map(vtodo => this.mapTodoComponent(vtodo));
+  }
+
+  private mapTodoComponent(vtodo: ICalComponent): Partial<Task> {
+    const task: Partial<Task> = {};
+
+    for (const property of vtodo.properties) {
+      const value = property.value;
+
+      switch (property.name) {
+        case 'UID':
+          task.uid = value;
+          break;
+        case 'SUMMARY':
+          task.summary = unescapeICalText(value);
+          break;
+        case 'DESCRIPTION':
+          task.description = unescapeICalText(value);
+          break;
+        case 'STATUS':
+          task.status = value.toUpperCase() as TaskStatus;
+          break;
+        case 'PRIORITY':
+          task.priority = parseInt(value, 10) || 0;
+          break;
+        case 'PERCENT-COMPLETE':
+          task.percentComplete = parseInt(value, 10) || 0;
+          break;
+        case 'DUE': {
+          task.due = value;
+          task.allDay = getICalParam(property, 'VALUE') === 'DATE' || isICalDate(value);
+          const timezone = getICalParam(property, 'TZID');
+          if (timezone) {
+            task.timezone = timezone;
+          }
+          const due = this.toUtcDate(value, timezone);
+          if (due) {
+            task.dueUtc = due.toISOString();
+          }
+          break;
+        }
+        case 'DTSTART':
+          task.dtstart = value;
+          break;
+        case 'COMPLETED': {
+          const completed = parseICalDateTime(value);
+          if (completed) {
+            task.completed = completed.toISOString();
+          }
+          break;
+        }
+        case 'CATEGORIES':
+          task.categories = [
+            ...(task.categories || []),
+            ...splitICalList(value).map(category => unescapeICalText(category).trim()).filter(Boolean),
+          ];
+          break;
+        case 'RELATED-TO': {
+          const relType = (getICalParam(property, 'RELTYPE') || 'PARENT').toUpperCase();
+          if (relType === 'PARENT') {
+            task.parentUid = value;
+          }
+          break;
+        }
+        case 'X-APPLE-SORT-ORDER':
+          task.sortOrder = parseInt(value, 10);
+          break;
+        case 'LAST-MODIFIED': {
+          const lastModified = parseICalDateTime(value);
+          if (lastModified) {
+            task.lastmodified = Math.floor(lastModified.getTime() / 1000);
+          }
+          break;
+        }
+      }
+    }
+
+    return task;
+  }
+
+  /**
+   * Write the supplied task fields into a VTODO, leaving other properties alone.
+   * Completing a task also sets COMPLETED and PERCENT-COMPLETE as RFC 5545 expects.
+   */
+  private patchTodoComponent(vcalendar: ICalComponent, vtodo: ICalComponent, task: Partial<Task>): void {
+    if (task.summary !== undefined) {
+      setICalProperty(vtodo, 'SUMMARY', escapeICalText(task.summary));
+    }
+
+    if (task.description !== undefined) {
+      setICalProperty(vtodo, 'DESCRIPTION', escapeICalText(task.description));
+    }
+
+    if (task.priority !== undefined) {
+      setICalProperty(vtodo, 'PRIORITY', task.priority ? String(task.priority) : undefined);
+    }
+
+    if (task.categories !== undefined) {
+      setICalProperty(vtodo, 'CATEGORIES', task.categories.map(escapeICalText).join(','));
+    }
+
+    if (task.sortOrder !== undefined) {
+      setICalProperty(vtodo, 'X-APPLE-SORT-ORDER', String(task.sortOrder));
+    }
+
+    if (task.parentUid !== undefined) {
+      // Only the parent relation is ours to change; keep siblings and children
+      vtodo.properties = vtodo.properties.filter(property =>
+        property.name !== 'RELATED-TO' || (getICalParam(property, 'RELTYPE') || 'PARENT').toUpperCase() !== 'PARENT'
+      );
+      if (task.parentUid) {
+        vtodo.properties.push({ name: 'RELATED-TO', params: { RELTYPE: ['PARENT'] }, value: task.parentUid });
+      }
+    }
+
+    if (task.percentComplete !== undefined) {
+      setICalProperty(vtodo, 'PERCENT-COMPLETE', String(task.percentComplete));
+    }
+
+    if (task.status !== undefined) {
+      setICalProperty(vtodo, 'STATUS', task.status);
+      if (task.status === 'COMPLETED') {
+        setICalProperty(vtodo, 'COMPLETED', formatICalDateTimeUTC(new Date()));
+        setICalProperty(vtodo, 'PERCENT-COMPLETE', '100');
+      } else {
+        setICalProperty(vtodo, 'COMPLETED');
+        if (getICalProperty(vtodo, 'PERCENT-COMPLETE')?.value === '100') {
+          setICalProperty(vtodo, 'PERCENT-COMPLETE', '0');
+        }
+      }
+    }
+
+    if (task.timezone && !isValidTimeZone(task.timezone)) {
+      throw new Error(`Unknown timezone: ${task.timezone}. Use an IANA name such as "Europe/Berlin".`);
+    }
+
+    if (task.due !== undefined) {
+      const existingDue = getICalProperty(vtodo, 'DUE');
+      const timezone = task.timezone || (existingDue && getICalParam(existingDue, 'TZID'));
+      const allDay = task.allDay ?? (task.due ? isDateOnly(task.due) : false);
+
+      setICalProperty(vtodo, 'DUE');
+      if (task.due) {
+        vtodo.properties.push(this.buildDateProperty('DUE', task.due, timezone, allDay));
+        if (timezone && !allDay) {
+          this.ensureVTimezone(vcalendar, timezone, task.due);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Manual sort order first (tasks without one last), then priority (1 is the
+ * highest, 0 means none), then due date
+ */
+function compareTasks(a: Task, b: Task): number {
+  const sortOrder = (a.sortOrder ?? Infinity) - (b.sortOrder ?? Infinity);
+  if (sortOrder) {
+    return sortOrder;
+  }
+
+  const priority = (a.priority || 10) - (b.priority || 10);
+  if (priority) {
+    return priority;
+  }
+
+  // Tasks without a due date go last
+  return (a.dueUtc || '\uffff').localeCompare(b.dueUtc || '\uffff');
+}
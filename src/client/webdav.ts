@@ -15,6 +15,18 @@ export class WebDAVClient extends BaseNextcloudClient {
     });
   }
 
+  /**
+   * Read a file as raw bytes, for binary content such as images
+   */
+  public async readBinaryFile(path: string): Promise<Buffer> {
+    const data = await this.makeRequest<ArrayBuffer>({
+      method: 'GET',
+      url: `/remote.php/dav/files/{username}/${path}`,
+      responseType: 'arraybuffer',
+    });
+    return Buffer.from(data);
+  }
+
   public async writeFile(path: string, content: string): Promise<void> {
     await this.makeRequest<void>({
       method: 'PUT',
@@ -2,11 +2,13 @@ import 'dotenv/config';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { setCredentials } from './utils/client-manager.js';
+import { setDefaultPhoneRegion } from './utils/contact-normalization.js';
 
 // Import tool registration functions
 import { registerNotesTools } from './tools/notes.tools.js';
 import { registerCalendarTools } from './tools/calendar.tools.js';
 import { registerCalendarDebugTools } from './tools/calendar-debug.tools.js';
+import { registerTasksTools } from './tools/tasks.tools.js';
 import { registerContactsTools } from './tools/contacts.tools.js';
 import { registerTablesTools } from './tools/tables.tools.js';
 import { registerWebDAVTools } from './tools/webdav.tools.js';
@@ -23,6 +25,8 @@ export const configSchema = z.object({
     .describe('Nextcloud username for authentication'),
   nextcloudPassword: z.string()
     .describe('Nextcloud password for authentication'),
+  defaultPhoneRegion: z.string().optional()
+    .describe('Region for phone numbers written without a country code (ISO 3166 code, e.g. DE)'),
 });
 
 /**
@@ -43,6 +47,7 @@ export default function createStatelessServer({
     NEXTCLOUD_HOST,
     NEXTCLOUD_USERNAME,
     NEXTCLOUD_PASSWORD,
+    NEXTCLOUD_DEFAULT_PHONE_REGION,
   } = process.env;
 
   // Use config values or fall back to environment variables
@@ -54,12 +59,14 @@ export default function createStatelessServer({
   if (host && username && password) {
     setCredentials(host, username, password);
   }
+  setDefaultPhoneRegion(config.defaultPhoneRegion || NEXTCLOUD_DEFAULT_PHONE_REGION);
 
   // Register all tool sets
   const toolSets: ToolRegistrationFn[] = [
     registerNotesTools,
     registerCalendarTools,
     registerCalendarDebugTools,
+    registerTasksTools,
     registerContactsTools,
     registerTablesTools,
     registerWebDAVTools,
@@ -83,12 +90,13 @@ export default function createStatelessServer({
               timestamp: new Date().toISOString(),
               available_tools: [
                 'Notes: nextcloud_notes_create_note, nextcloud_notes_update_note, nextcloud_notes_append_content, nextcloud_notes_search_notes, nextcloud_notes_delete_note',
-                'Calendar: nextcloud_calendar_list_calendars, nextcloud_calendar_create_event, nextcloud_calendar_list_events, nextcloud_calendar_get_event, nextcloud_calendar_update_event, nextcloud_calendar_delete_event',
-                'Contacts: nextcloud_contacts_list_addressbooks, nextcloud_contacts_create_addressbook, nextcloud_contacts_delete_addressbook, nextcloud_contacts_list_contacts, nextcloud_contacts_create_contact, nextcloud_contacts_delete_contact',
+                'Calendar: nextcloud_calendar_list_calendars, nextcloud_calendar_create_calendar, nextcloud_calendar_update_calendar, nextcloud_calendar_delete_calendar, nextcloud_calendar_subscribe, nextcloud_calendar_unsubscribe, nextcloud_calendar_list_shares, nextcloud_calendar_share_calendar, nextcloud_calendar_unshare_calendar, nextcloud_calendar_publish_calendar, nextcloud_calendar_unpublish_calendar, nextcloud_calendar_export_calendar, nextcloud_calendar_import_calendar, nextcloud_calendar_create_event, nextcloud_calendar_list_events, nextcloud_calendar_get_event, nextcloud_calendar_find_event_by_uid, nextcloud_calendar_get_changes, nextcloud_calendar_update_event, nextcloud_calendar_respond_to_invitation, nextcloud_calendar_get_agenda, nextcloud_calendar_find_meeting_slots, nextcloud_calendar_delete_event',
+                'Tasks: nextcloud_tasks_list_task_lists, nextcloud_tasks_list_tasks, nextcloud_tasks_create_task, nextcloud_tasks_complete_task, nextcloud_tasks_reorder_tasks, nextcloud_tasks_delete_task',
+                'Contacts: nextcloud_contacts_list_addressbooks, nextcloud_contacts_create_addressbook, nextcloud_contacts_delete_addressbook, nextcloud_contacts_export_addressbook, nextcloud_contacts_import_addressbook, nextcloud_contacts_list_contacts, nextcloud_contacts_search_contacts, nextcloud_contacts_list_groups, nextcloud_contacts_add_to_group, nextcloud_contacts_remove_from_group, nextcloud_contacts_find_duplicates, nextcloud_contacts_merge_contacts, nextcloud_contacts_create_contact, nextcloud_contacts_update_contact, nextcloud_contacts_get_photo, nextcloud_contacts_set_photo, nextcloud_contacts_remove_photo, nextcloud_contacts_delete_contact',
                 'Tables: nextcloud_tables_list_tables, nextcloud_tables_get_schema, nextcloud_tables_read_table, nextcloud_tables_insert_row, nextcloud_tables_update_row, nextcloud_tables_delete_row',
                 'WebDAV: nextcloud_webdav_list_directory, nextcloud_webdav_read_file, nextcloud_webdav_write_file, nextcloud_webdav_create_directory, nextcloud_webdav_delete_resource'
               ],
-              total_tools: 29,
+              total_tools: 64,
             }, null, 2),
           },
         ],
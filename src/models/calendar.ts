@@ -6,25 +6,179 @@ export interface Calendar {
   order?: number;
   ctag?: string;
   uri?: string;
+  components?: string[];    // Supported component types, e.g. VEVENT, VTODO
+  subscribed?: boolean;     // Read-only webcal subscription
+  source?: string;          // URL a subscription is fetched from
+  refreshRate?: string;     // ISO 8601 duration between subscription refreshes
+}
+
+/**
+ * A raw .ics resource in a calendar collection
+ */
+export interface CalendarObject {
+  id: string;
+  etag: string;
+  uri: string;
+  data: string;
+}
+
+export type ShareeType = 'user' | 'group' | 'circle';
+
+export interface CalendarShare {
+  sharee: string;             // User, group or circle id
+  type: ShareeType;
+  principal: string;          // e.g. principal:principals/users/alice
+  displayName?: string;
+  access: 'read' | 'read-write';
+  accepted?: boolean;
+}
+
+export interface CalendarPublication {
+  published: boolean;
+  publicUrl?: string;         // CalDAV URL for subscribing
+  webUrl?: string;            // Link to the public page of the Calendar app
+}
+
+export type ParticipationStatus = 'NEEDS-ACTION' | 'ACCEPTED' | 'DECLINED' | 'TENTATIVE' | 'DELEGATED';
+
+export type AttendeeRole = 'CHAIR' | 'REQ-PARTICIPANT' | 'OPT-PARTICIPANT' | 'NON-PARTICIPANT';
+
+export interface Attendee {
+  email: string;
+  name?: string;
+  role?: AttendeeRole;
+  partstat?: ParticipationStatus;
+  rsvp?: boolean;
+  cutype?: string;
+  scheduleStatus?: string;
+}
+
+export interface Organizer {
+  email: string;
+  name?: string;
+}
+
+export type ReminderAction = 'DISPLAY' | 'EMAIL' | 'AUDIO';
+
+export interface Reminder {
+  id?: string;                  // Alarm UID, used to change or remove an existing reminder
+  action?: ReminderAction;
+  minutesBefore?: number;       // Relative trigger; negative values fire after the reference time
+  relatedTo?: 'START' | 'END';  // Reference for relative triggers (default START)
+  at?: string;                  // Absolute trigger time (UTC)
+  description?: string;
+  remove?: boolean;             // Only on update: delete the reminder with this id
 }
 
 export interface Event {
   id: string;
+  uid?: string;
   summary?: string;
   description?: string;
   dtstart?: string;
   dtend?: string;
+  dtstartUtc?: string;
+  dtendUtc?: string;
+  timezone?: string;
   location?: string;
+  url?: string;
   allDay?: boolean;
   recurring?: boolean;
   recurrenceRule?: string;
-  attendees?: string[];
-  reminders?: number[];
+  recurrenceId?: string;
+  occurrenceStart?: string;
+  rdates?: string[];
+  exdates?: string[];
+  duration?: string;
+  organizer?: Organizer;
+  attendees?: Attendee[];
+  reminders?: Reminder[];
   categories?: string[];
   priority?: number;
   status?: string;
+  sequence?: number;
+  transparency?: string;
   etag?: string;
   uri?: string;
   calendarId?: string;
   lastmodified?: number;
-}
\ No newline at end of file
+}
+export interface BusyPeriod {
+  start: string;
+  end: string;
+  type?: string;        // FBTYPE: BUSY, BUSY-TENTATIVE, BUSY-UNAVAILABLE
+}
+
+export interface FreeBusyResult {
+  attendee: string;
+  busy: BusyPeriod[];
+  status?: string;      // iTIP request status reported by the server
+  error?: string;
+}
+
+export interface MeetingSlot {
+  start: string;
+  end: string;
+}
+
+export interface MeetingSlotSuggestion {
+  freeBusy: FreeBusyResult[];
+  slots: MeetingSlot[];
+}
+
+export interface AgendaItem {
+  time: string;               // "09:00-10:30" in the agenda's timezone, "all day", or a single time for instants
+  summary: string;
+  calendarId: string;
+  calendarName?: string;
+  eventId: string;
+  allDay: boolean;
+  location?: string;
+  status?: string;
+  conflict?: boolean;         // Overlaps another event that blocks time
+}
+
+export interface AgendaDay {
+  date: string;               // YYYY-MM-DD in the agenda's timezone
+  weekday: string;
+  items: AgendaItem[];
+}
+
+export interface AgendaConflict {
+  start: string;              // Overlapping period (UTC)
+  end: string;
+  events: { calendarId: string; eventId: string; summary: string; start: string; end: string }[];
+}
+
+export interface Agenda {
+  start: string;              // Resolved range (UTC)
+  end: string;
+  timeZone: string;
+  totalEvents: number;
+  days: AgendaDay[];
+  conflicts: AgendaConflict[];
+  errors?: { calendarId: string; error: string }[];
+}
+
+export interface CalendarImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  errors: { uid: string; error: string }[];
+}
+
+export interface CalendarChanges {
+  calendarId: string;
+  syncToken: string;
+  initial: boolean;           // True when there was no previous sync to compare with
+  added: Event[];
+  changed: Event[];           // Without the client's cached state for the token, new events are listed here too
+  deleted: string[];          // IDs of removed calendar objects
+}
+
+export interface CalendarSyncState {
+  token: string;
+  ctag?: string;
+  knownIds: string[];
+}
@@ -6,16 +6,153 @@ export interface AddressBook {
   uri?: string;
 }
 
+/**
+ * Structured name (vCard N)
+ */
+export interface ContactName {
+  familyName?: string;
+  givenName?: string;
+  additionalNames?: string;
+  honorificPrefixes?: string;
+  honorificSuffixes?: string;
+}
+
+export interface ContactEmail {
+  value: string;              // As entered
+  normalized?: string;        // Lower-cased with an ASCII domain, when that differs from value
+  types?: string[];           // e.g. ["work"], ["home"]
+  pref?: number;              // 1 (most preferred) to 100
+  label?: string;             // Custom label (X-ABLabel)
+}
+
+export interface ContactPhone {
+  value: string;              // As entered
+  normalized?: string;        // E.164 ("+49301234567"), when known and different from value
+  types?: string[];           // e.g. ["cell"], ["work", "voice"]
+  pref?: number;
+  label?: string;
+}
+
+/**
+ * Structured postal address (vCard ADR)
+ */
+export interface ContactAddress {
+  poBox?: string;
+  extended?: string;          // Apartment, suite, ...
+  street?: string;
+  locality?: string;          // City
+  region?: string;            // State or province
+  postalCode?: string;
+  country?: string;
+  types?: string[];
+  pref?: number;
+  label?: string;
+}
+
 export interface Contact {
   id: string;
+  uid?: string;
   fn?: string;
-  email?: string[];
-  tel?: string[];
-  adr?: string[];
-  org?: string[];
+  n?: ContactName;
+  nickname?: string[];
+  email?: ContactEmail[];
+  tel?: ContactPhone[];
+  adr?: ContactAddress[];
+  org?: string[];             // Organization, followed by units if any, joined with ", "
+  title?: string;
+  role?: string;
+  bday?: string;
+  url?: string[];
   note?: string;
+  categories?: string[];      // Groups the contact belongs to
+  hasPhoto?: boolean;         // The photo itself is fetched separately
+  version?: string;
   etag?: string;
   uri?: string;
   addressBookId?: string;
   lastmodified?: number;
-}
\ No newline at end of file
+}
+
+/**
+ * A contact photo: embedded image data, or the URL of a photo stored elsewhere
+ */
+export interface ContactPhoto {
+  mediaType?: string;         // e.g. image/jpeg
+  data?: string;              // Base64
+  url?: string;
+}
+
+/**
+ * A contact group (vCard CATEGORIES value) and how many contacts are in it
+ */
+export interface ContactGroup {
+  name: string;
+  count: number;
+}
+
+/**
+ * Outcome of adding contacts to or removing them from a group, per contact
+ */
+export interface ContactGroupUpdateResult {
+  group: string;
+  updated: number;
+  unchanged: number;                 // Already in (or not in) the group
+  failed: number;
+  contacts: {
+    contactId: string;
+    action: 'updated' | 'unchanged' | 'failed';
+    contact?: Contact;
+    error?: string;
+  }[];
+}
+
+export interface ContactImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  cards: {
+    uid: string;
+    fn?: string;
+    contactId?: string;
+    action: 'created' | 'updated' | 'skipped' | 'failed';
+    error?: string;
+  }[];
+}
+
+/**
+ * Contacts that probably describe the same person
+ */
+export interface ContactDuplicateGroup {
+  confidence: number;                // 0 to 1
+  reasons: string[];                 // e.g. "same email jane@example.com", "similar names (92%)"
+  contacts: Partial<Contact>[];
+}
+
+export interface ContactMergeResult {
+  dryRun: boolean;
+  primaryId: string;
+  contact: Partial<Contact>;         // The merged contact (as it would look, on a dry run)
+  deleted?: string[];                // IDs of the merged-away contacts (real merge only)
+  wouldDelete?: string[];            // IDs a real merge would delete (dry run only; nothing was changed)
+}
+
+export type ContactSearchField = 'fn' | 'email' | 'tel' | 'org';
+
+export interface ContactSearchOptions {
+  query: string;
+  searchIn?: ContactSearchField[];   // Defaults to all of them
+  limit?: number;                    // Page size (default: 25)
+  offset?: number;
+  fields?: (keyof Contact)[];        // Only return these contact fields (id is always included)
+}
+
+export interface ContactSearchResult {
+  query: string;
+  total: number;
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+  source: 'server' | 'local';        // Matched by addressbook-query, or locally after REPORT failed
+  contacts: Partial<Contact>[];
+}
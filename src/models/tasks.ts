@@ -0,0 +1,29 @@
+export type TaskStatus = 'NEEDS-ACTION' | 'IN-PROCESS' | 'COMPLETED' | 'CANCELLED';
+
+export interface Task {
+  id: string;
+  uid?: string;
+  summary?: string;
+  description?: string;
+  status?: TaskStatus;
+  priority?: number;          // 1 (highest) to 9 (lowest), 0 = undefined
+  percentComplete?: number;
+  due?: string;
+  dueUtc?: string;
+  dtstart?: string;
+  completed?: string;         // When the task was completed (UTC)
+  timezone?: string;
+  allDay?: boolean;
+  categories?: string[];
+  parentUid?: string;         // RELATED-TO;RELTYPE=PARENT, for subtasks
+  sortOrder?: number;         // X-APPLE-SORT-ORDER, used by Nextcloud Tasks for manual ordering
+  etag?: string;
+  uri?: string;
+  calendarId?: string;
+  lastmodified?: number;
+}
+
+export interface TaskFilter {
+  status?: TaskStatus[];
+  parentUid?: string;
+}
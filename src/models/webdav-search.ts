@@ -36,13 +36,23 @@ export interface SearchOptions {
   searchIn: SearchScope[];          // What to search in
   fileTypes?: string[];             // Filter by extensions
   sizeRange?: { min?: number; max?: number };
-  dateRange?: { from?: Date; to?: Date };
+  dateRange?: DateRangeFilter;
   basePath?: string;                // Limit to specific directory
   limit?: number;                   // Max results (default: 50)
   includeContent?: boolean;         // Include content preview
   caseSensitive?: boolean;          // Case sensitive search
 }
 
+/**
+ * Last-modified filter. String bounds may be ISO dates or expressions such as
+ * "last 2 weeks" or "since monday", resolved in the given timezone.
+ */
+export interface DateRangeFilter {
+  from?: Date | string;
+  to?: Date | string;
+  timeZone?: string;                // IANA timezone for relative expressions (default UTC)
+}
+
 /**
  * Scope of search - what to search in
  */
@@ -2,7 +2,71 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { getClient } from '../utils/client-manager.js';
 import { CalendarClient } from '../client/calendar.js';
+import { WebDAVClient } from '../client/webdav.js';
 import { prefixToolName } from '../utils/tool-naming.js';
+import { formatDateRange, parseDateExpression, resolveDateRange } from '../utils/date-expression.js';
+
+const attendeeSchema = z.object({
+  email: z.string().describe('E-mail address of the attendee'),
+  name: z.string().optional().describe('Display name'),
+  role: z.enum(['CHAIR', 'REQ-PARTICIPANT', 'OPT-PARTICIPANT', 'NON-PARTICIPANT']).optional().describe('Participation role (default REQ-PARTICIPANT)'),
+  partstat: z.enum(['NEEDS-ACTION', 'ACCEPTED', 'DECLINED', 'TENTATIVE', 'DELEGATED']).optional().describe('Participation status (default NEEDS-ACTION)'),
+  rsvp: z.boolean().optional().describe('Whether a reply is requested (default true)'),
+});
+
+const reminderSchema = z.object({
+  id: z.string().optional().describe('ID of an existing reminder to change or remove (as returned when reading the event). Omit to add a new reminder'),
+  action: z.enum(['DISPLAY', 'EMAIL']).optional().describe('Notification or e-mail (default DISPLAY)'),
+  minutesBefore: z.number().optional().describe('Minutes before the event start (negative for after)'),
+  relatedTo: z.enum(['START', 'END']).optional().describe('Whether minutesBefore refers to the start or the end of the event (default START)'),
+  at: z.string().optional().describe('Absolute reminder time (ISO format), instead of minutesBefore'),
+  description: z.string().optional().describe('Reminder text (defaults to the event title)'),
+  remove: z.boolean().optional().describe('Set to true together with id to delete that reminder'),
+});
+
+const organizerSchema = z.object({
+  email: z.string().describe('E-mail address of the organizer'),
+  name: z.string().optional().describe('Display name'),
+});
+
+const DATE_EXPRESSION_HINT = 'ISO date/time or an expression such as "today", "next tuesday", "tomorrow 14:00", "last 2 weeks" or "this month"';
+
+/**
+ * Resolve start/end arguments that may be date expressions. A start naming a
+ * period ("this week") also supplies the end when none is given.
+ */
+function resolveRangeArguments(start?: string, end?: string, timezone?: string) {
+  const range = resolveDateRange(start, end, { timeZone: timezone });
+  return {
+    start: range.start?.toISOString(),
+    end: range.end?.toISOString(),
+    range: formatDateRange(range),
+  };
+}
+
+/**
+ * Resolve the arguments of a tool that needs a bounded range. Without an end,
+ * a start covering a span (a bare ISO date such as 2025-03-10, "tomorrow",
+ * "next week") is used whole; a single point in time is rejected.
+ */
+function resolveBoundedRangeArguments(start: string, end: string | undefined, timezone: string | undefined, rangeName: string) {
+  const range = resolveDateRange(start, end, { timeZone: timezone });
+  if (!range.end) {
+    const single = parseDateExpression(start, { timeZone: timezone });
+    if (single.end <= single.start) {
+      throw new Error(`"${start}" is a single point in time; give an end for the ${rangeName}`);
+    }
+    range.end = single.end;
+  }
+  if (!range.start) {
+    throw new Error(`Give a start for the ${rangeName}`);
+  }
+  return {
+    start: range.start.toISOString(),
+    end: range.end.toISOString(),
+    range: formatDateRange(range),
+  };
+}
 
 /**
  * Register Calendar tools with the MCP server
@@ -11,7 +75,7 @@ import { prefixToolName } from '../utils/tool-naming.js';
 export function registerCalendarTools(server: McpServer) {
   server.tool(
     prefixToolName('calendar_list_calendars'),
-    'List all calendars in Nextcloud',
+    'List all calendars in Nextcloud, including read-only webcal subscriptions (marked with subscribed, source and refreshRate)',
     {},
     async () => {
       const calendars = await getClient(CalendarClient).listCalendars();
@@ -26,17 +90,298 @@ export function registerCalendarTools(server: McpServer) {
     }
   );
 
+  server.tool(
+    prefixToolName('calendar_create_calendar'),
+    'Create a new calendar or task list',
+    {
+      displayName: z.string().describe('Name of the calendar'),
+      id: z.string().optional().describe('URL id of the calendar (lower-case letters, digits, ".", "_" and "-"). Derived from the name when omitted'),
+      description: z.string().optional().describe('Description of the calendar'),
+      color: z.string().optional().describe('Hex color, e.g. "#0082C9"'),
+      order: z.number().int().optional().describe('Position in the calendar list'),
+      components: z.array(z.enum(['VEVENT', 'VTODO'])).optional().describe('What the calendar holds: events (VEVENT), tasks (VTODO) or both (default events)'),
+    },
+    async (options) => {
+      const calendar = await getClient(CalendarClient).createCalendar(options);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(calendar, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('calendar_update_calendar'),
+    'Rename, recolor, reorder or change the description of a calendar',
+    {
+      calendarId: z.string().describe('The ID of the calendar'),
+      displayName: z.string().optional().describe('New name'),
+      description: z.string().optional().describe('New description'),
+      color: z.string().optional().describe('New hex color, e.g. "#0082C9"'),
+      order: z.number().int().optional().describe('New position in the calendar list'),
+    },
+    async ({ calendarId, ...changes }) => {
+      const calendar = await getClient(CalendarClient).updateCalendar(calendarId, changes);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(calendar, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('calendar_delete_calendar'),
+    'Delete a calendar together with all its events and tasks',
+    {
+      calendarId: z.string().describe('The ID of the calendar to delete'),
+    },
+    async ({ calendarId }) => {
+      await getClient(CalendarClient).deleteCalendar(calendarId);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              status_code: 200,
+              message: `Calendar ${calendarId} deleted successfully`,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('calendar_subscribe'),
+    'Subscribe to a remote calendar feed (webcal/iCalendar URL). Nextcloud refreshes it periodically and its events can be listed but not changed',
+    {
+      source: z.string().describe('URL of the feed, e.g. "webcal://example.com/holidays.ics"'),
+      displayName: z.string().describe('Name of the subscription'),
+      id: z.string().optional().describe('URL id of the subscription (lower-case letters, digits, ".", "_" and "-"). Derived from the name when omitted'),
+      color: z.string().optional().describe('Hex color, e.g. "#0082C9"'),
+      refreshRate: z.string().optional().describe('How often to refresh, as an ISO 8601 duration, e.g. "PT6H" or "P1D"'),
+    },
+    async (options) => {
+      const calendar = await getClient(CalendarClient).subscribeCalendar(options);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(calendar, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('calendar_unsubscribe'),
+    'Remove a webcal subscription',
+    {
+      calendarId: z.string().describe('The ID of the subscription'),
+    },
+    async ({ calendarId }) => {
+      await getClient(CalendarClient).unsubscribeCalendar(calendarId);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              status_code: 200,
+              message: `Subscription ${calendarId} removed successfully`,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('calendar_list_shares'),
+    'List who a calendar is shared with and whether it is published via a public link',
+    {
+      calendarId: z.string().describe('The ID of the calendar'),
+    },
+    async ({ calendarId }) => {
+      const client = getClient(CalendarClient);
+      const shares = await client.listCalendarShares(calendarId);
+      const publication = await client.getCalendarPublication(calendarId);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ shares, publication }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('calendar_share_calendar'),
+    'Share a calendar with a user, group or circle, read-only or with write access. Sharing again changes the access level',
+    {
+      calendarId: z.string().describe('The ID of the calendar'),
+      sharee: z.string().describe('User, group or circle ID to share with'),
+      type: z.enum(['user', 'group', 'circle']).optional().describe('Kind of sharee (default user)'),
+      readWrite: z.boolean().optional().describe('Allow the sharee to edit the calendar (default read-only)'),
+    },
+    async ({ calendarId, sharee, type, readWrite }) => {
+      const shares = await getClient(CalendarClient).shareCalendar(calendarId, sharee, { type, readWrite });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(shares, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('calendar_unshare_calendar'),
+    'Stop sharing a calendar with a user, group or circle',
+    {
+      calendarId: z.string().describe('The ID of the calendar'),
+      sharee: z.string().describe('User, group or circle ID to remove'),
+      type: z.enum(['user', 'group', 'circle']).optional().describe('Kind of sharee (default user)'),
+    },
+    async ({ calendarId, sharee, type }) => {
+      const shares = await getClient(CalendarClient).unshareCalendar(calendarId, sharee, type);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(shares, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('calendar_publish_calendar'),
+    'Publish a calendar as a read-only public link and return the public URLs',
+    {
+      calendarId: z.string().describe('The ID of the calendar'),
+    },
+    async ({ calendarId }) => {
+      const publication = await getClient(CalendarClient).publishCalendar(calendarId);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(publication, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('calendar_unpublish_calendar'),
+    'Remove the public link of a calendar',
+    {
+      calendarId: z.string().describe('The ID of the calendar'),
+    },
+    async ({ calendarId }) => {
+      const publication = await getClient(CalendarClient).unpublishCalendar(calendarId);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(publication, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('calendar_export_calendar'),
+    'Export a calendar (or the events of a date range) as a single .ics file, returned as text or saved to a file in Nextcloud',
+    {
+      calendarId: z.string().describe('The ID of the calendar'),
+      start: z.string().optional().describe(`Only export events ending after this point: ${DATE_EXPRESSION_HINT}`),
+      end: z.string().optional().describe('Only export events starting before this point (same formats as start)'),
+      timezone: z.string().optional().describe('IANA timezone for relative dates such as "today" (default UTC)'),
+      path: z.string().optional().describe('WebDAV path to save the .ics file to, e.g. "/Documents/conference.ics". Returns the file content when omitted'),
+    },
+    async ({ calendarId, start, end, timezone, path }) => {
+      const resolved = resolveRangeArguments(start, end, timezone);
+      const icsData = await getClient(CalendarClient).exportCalendar(calendarId, resolved.start, resolved.end);
+      if (path) {
+        await getClient(WebDAVClient).writeFile(path, icsData);
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: path
+              ? JSON.stringify({
+                status_code: 200,
+                message: `Calendar ${calendarId} exported successfully to ${path}`,
+                ...((start || end) && { range: resolved.range }),
+              }, null, 2)
+              : icsData,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('calendar_import_calendar'),
+    'Import an .ics file into a calendar, from a file in Nextcloud or inline text. Reports how many objects were created, updated or skipped',
+    {
+      calendarId: z.string().describe('The ID of the calendar to import into'),
+      path: z.string().optional().describe('WebDAV path of the .ics file to import'),
+      icsData: z.string().optional().describe('iCalendar text to import, instead of a file'),
+      skipExisting: z.boolean().optional().describe('Leave events that already exist (same UID) untouched instead of updating them'),
+    },
+    async ({ calendarId, path, icsData, skipExisting }) => {
+      if (!path && !icsData) {
+        throw new Error('Either path or icsData must be provided');
+      }
+      const data = icsData ?? await getClient(WebDAVClient).readFile(path!);
+      const result = await getClient(CalendarClient).importCalendar(calendarId, data, { skipExisting });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
   server.tool(
     prefixToolName('calendar_create_event'),
     'Create a new calendar event',
     {
       calendarId: z.string().describe('The ID of the calendar'),
       event: z.object({
+        uid: z.string().optional().describe('iCalendar UID for the event. A new UUID is generated when omitted'),
         summary: z.string().optional().describe('Event title/summary'),
         description: z.string().optional().describe('Event description'),
-        dtstart: z.string().optional().describe('Start date/time (ISO format)'),
-        dtend: z.string().optional().describe('End date/time (ISO format)'),
+        dtstart: z.string().optional().describe('Start date/time (ISO format). Without an offset it is read as local time in the given timezone; a plain date (YYYY-MM-DD) creates an all-day event'),
+        dtend: z.string().optional().describe('End date/time (ISO format). For all-day events this is the exclusive end date'),
+        timezone: z.string().optional().describe('IANA timezone of the event, e.g. "Europe/Berlin". Times are stored in UTC when omitted'),
+        allDay: z.boolean().optional().describe('Store dtstart/dtend as dates without a time'),
         location: z.string().optional().describe('Event location'),
+        attendees: z.array(attendeeSchema).optional().describe('People to invite. Nextcloud sends the invitations; on update this replaces the attendee list'),
+        organizer: organizerSchema.optional().describe('Organizer of the event. Defaults to you when attendees are given'),
+        reminders: z.array(reminderSchema).optional().describe('Reminders to add, change or remove. Existing reminders that are not listed are kept'),
       }).describe('Event data'),
     },
     async ({ calendarId, event }) => {
@@ -54,19 +399,22 @@ export function registerCalendarTools(server: McpServer) {
 
   server.tool(
     prefixToolName('calendar_list_events'),
-    'List events from a calendar',
+    'List events from a calendar, optionally limited to events overlapping a time range. When both start and end are given, recurring events are expanded into individual occurrences tagged with their uid and occurrenceStart',
     {
       calendarId: z.string().describe('The ID of the calendar'),
-      start: z.string().optional().describe('Start date filter (ISO format)'),
-      end: z.string().optional().describe('End date filter (ISO format)'),
+      start: z.string().optional().describe(`Only return events ending after this point: ${DATE_EXPRESSION_HINT}. A period such as "next week" sets both start and end`),
+      end: z.string().optional().describe('Only return events starting before this point (same formats as start)'),
+      timezone: z.string().optional().describe('IANA timezone for relative dates such as "today" (default UTC)'),
     },
-    async ({ calendarId, start, end }) => {
-      const events = await getClient(CalendarClient).listEvents(calendarId, start, end);
+    async ({ calendarId, start, end, timezone }) => {
+      const resolved = resolveRangeArguments(start, end, timezone);
+      const events = await getClient(CalendarClient).listEvents(calendarId, resolved.start, resolved.end);
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(events, null, 2),
+            // Echo the resolved range only when one was requested
+            text: JSON.stringify(start || end ? { range: resolved.range, events } : events, null, 2),
           },
         ],
       };
@@ -93,18 +441,65 @@ export function registerCalendarTools(server: McpServer) {
     }
   );
 
+  server.tool(
+    prefixToolName('calendar_find_event_by_uid'),
+    'Find an event by its iCalendar UID, in one calendar or across all calendars',
+    {
+      uid: z.string().describe('The UID of the event'),
+      calendarId: z.string().optional().describe('The ID of the calendar to search. Searches all calendars when omitted'),
+    },
+    async ({ uid, calendarId }) => {
+      const event = await getClient(CalendarClient).findEventByUid(uid, calendarId);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: event ? JSON.stringify(event, null, 2) : `No event with UID ${uid} found`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('calendar_get_changes'),
+    'Show what changed in a calendar since a previous call: added, changed and deleted events. Without a syncToken all events are returned as added. The result contains a syncToken; pass it to the next call to get only what changed since then',
+    {
+      calendarId: z.string().describe('The ID of the calendar'),
+      syncToken: z.string().optional().describe('The syncToken returned by the previous call. Events changed since then are returned; when the server no longer knows the token, all events are returned again'),
+      reset: z.boolean().optional().describe('Ignore any previous sync state and return all events again'),
+    },
+    async ({ calendarId, syncToken, reset }) => {
+      const changes = await getClient(CalendarClient).syncCalendar(calendarId, { syncToken, reset });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(changes, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
   server.tool(
     prefixToolName('calendar_update_event'),
-    'Update an existing event',
+    'Update an existing event. Only the supplied fields are changed; attendees, reminders and other properties are preserved. Fails if the event was modified by someone else in the meantime',
     {
       calendarId: z.string().describe('The ID of the calendar'),
       eventId: z.string().describe('The ID of the event'),
       event: z.object({
         summary: z.string().optional().describe('Event title/summary'),
         description: z.string().optional().describe('Event description'),
-        dtstart: z.string().optional().describe('Start date/time (ISO format)'),
-        dtend: z.string().optional().describe('End date/time (ISO format)'),
+        dtstart: z.string().optional().describe('Start date/time (ISO format). Without an offset it is read as local time in the given timezone; a plain date (YYYY-MM-DD) creates an all-day event'),
+        dtend: z.string().optional().describe('End date/time (ISO format). For all-day events this is the exclusive end date'),
+        timezone: z.string().optional().describe('IANA timezone of the event, e.g. "Europe/Berlin". Times are stored in UTC when omitted'),
+        allDay: z.boolean().optional().describe('Store dtstart/dtend as dates without a time'),
         location: z.string().optional().describe('Event location'),
+        attendees: z.array(attendeeSchema).optional().describe('People to invite. Nextcloud sends the invitations; on update this replaces the attendee list'),
+        organizer: organizerSchema.optional().describe('Organizer of the event. Defaults to you when attendees are given'),
+        reminders: z.array(reminderSchema).optional().describe('Reminders to add, change or remove. Existing reminders that are not listed are kept'),
+        etag: z.string().optional().describe('ETag of the version being edited, as returned when the event was read. Defaults to the current server version'),
       }).describe('Updated event data'),
     },
     async ({ calendarId, eventId, event }) => {
@@ -120,6 +515,96 @@ export function registerCalendarTools(server: McpServer) {
     }
   );
 
+  server.tool(
+    prefixToolName('calendar_respond_to_invitation'),
+    'Accept, decline or tentatively accept an event invitation. Nextcloud sends the reply to the organizer',
+    {
+      calendarId: z.string().describe('The ID of the calendar containing the invitation'),
+      eventId: z.string().describe('The ID of the event'),
+      response: z.enum(['ACCEPTED', 'DECLINED', 'TENTATIVE']).describe('Your response'),
+      comment: z.string().optional().describe('Optional comment for the organizer'),
+    },
+    async ({ calendarId, eventId, response, comment }) => {
+      const result = await getClient(CalendarClient).respondToInvitation(calendarId, eventId, response, comment);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('calendar_get_agenda'),
+    'Get a day-by-day agenda across all calendars (or the selected ones) for a date range, with recurring events expanded and overlapping events flagged as conflicts',
+    {
+      start: z.string().describe(`Start of the range: ${DATE_EXPRESSION_HINT}. ISO values without an offset are local time in the given timezone. A period such as "this week" or a date alone such as 2025-03-10 sets both start and end`),
+      end: z.string().optional().describe('End of the range (exclusive, same formats as start)'),
+      calendarIds: z.array(z.string()).optional().describe('Only include these calendars (default all calendars that hold events)'),
+      timezone: z.string().optional().describe('IANA timezone used to group days and show times, e.g. "Europe/Berlin" (default UTC)'),
+    },
+    async ({ start, end, calendarIds, timezone }) => {
+      const resolved = resolveBoundedRangeArguments(start, end, timezone, 'agenda range');
+      const agenda = await getClient(CalendarClient).getAgenda({
+        start: resolved.start,
+        end: resolved.end,
+        calendarIds,
+        timezone: resolved.range.timeZone,
+      });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(agenda, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('calendar_find_meeting_slots'),
+    'Look up when you and the given attendees are busy and suggest free meeting slots within working hours. Your own calendars are checked directly, other attendees via Nextcloud free/busy',
+    {
+      attendees: z.array(z.string()).describe('E-mail addresses of the other attendees (may be empty to check only your own calendars)'),
+      start: z.string().describe(`Start of the search range: ${DATE_EXPRESSION_HINT}. A period such as "next week" or a date alone such as 2025-03-10 sets both start and end`),
+      end: z.string().optional().describe('End of the search range (same formats as start)'),
+      durationMinutes: z.number().int().positive().describe('Minimum length of a slot in minutes'),
+      workingHoursStart: z.string().optional().describe('Start of the working day as HH:MM (default 09:00)'),
+      workingHoursEnd: z.string().optional().describe('End of the working day as HH:MM (default 17:00)'),
+      workingDays: z.array(z.number().int().min(0).max(6)).optional().describe('Working weekdays, 0 = Sunday ... 6 = Saturday (default Monday to Friday)'),
+      timezone: z.string().optional().describe('IANA timezone of the working hours, e.g. "Europe/Berlin" (default UTC)'),
+      maxSlots: z.number().int().positive().optional().describe('Maximum number of slots to return (default 10)'),
+    },
+    async ({ attendees, start, end, durationMinutes, workingHoursStart, workingHoursEnd, workingDays, timezone, maxSlots }) => {
+      const resolved = resolveBoundedRangeArguments(start, end, timezone, 'search range');
+      const result = await getClient(CalendarClient).findMeetingSlots({
+        attendees,
+        start: resolved.start,
+        end: resolved.end,
+        durationMinutes,
+        workingHours: {
+          ...(workingHoursStart && { start: workingHoursStart }),
+          ...(workingHoursEnd && { end: workingHoursEnd }),
+          ...(workingDays && { days: workingDays }),
+          ...(timezone && { timeZone: timezone }),
+        },
+        maxSlots: maxSlots ?? 10,
+      });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ range: resolved.range, ...result }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
   server.tool(
     prefixToolName('calendar_delete_event'),
     'Delete an event from calendar',
@@ -2,7 +2,70 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { getClient } from '../utils/client-manager.js';
 import { ContactsClient } from '../client/contacts.js';
+import { WebDAVClient } from '../client/webdav.js';
 import { prefixToolName } from '../utils/tool-naming.js';
+import { Contact, ContactAddress } from '../models/contacts.js';
+
+const typedValueSchema = z.union([
+  z.string(),
+  z.object({
+    value: z.string(),
+    types: z.array(z.string()).optional().describe('e.g. ["work"], ["home"], ["cell"]'),
+    pref: z.number().int().min(1).max(100).optional().describe('Preference, 1 is the most preferred'),
+  }),
+]);
+
+const addressSchema = z.union([
+  z.string().describe('Street address as a single line'),
+  z.object({
+    poBox: z.string().optional(),
+    extended: z.string().optional().describe('Apartment, suite, ...'),
+    street: z.string().optional(),
+    locality: z.string().optional().describe('City'),
+    region: z.string().optional().describe('State or province'),
+    postalCode: z.string().optional(),
+    country: z.string().optional(),
+    types: z.array(z.string()).optional(),
+    pref: z.number().int().min(1).max(100).optional(),
+  }),
+]);
+
+const contactSchema = z.object({
+  fn: z.string().optional().describe('Full name'),
+  n: z.object({
+    familyName: z.string().optional(),
+    givenName: z.string().optional(),
+    additionalNames: z.string().optional(),
+    honorificPrefixes: z.string().optional(),
+    honorificSuffixes: z.string().optional(),
+  }).optional().describe('Structured name; derived from the full name when omitted'),
+  nickname: z.array(z.string()).optional().describe('Nicknames'),
+  email: z.array(typedValueSchema).optional().describe('Email addresses, plain or with types, e.g. {"value": "a@example.com", "types": ["work"]}'),
+  tel: z.array(typedValueSchema).optional().describe('Phone numbers, plain or with types, e.g. {"value": "+49 30 1234", "types": ["cell"]}'),
+  adr: z.array(addressSchema).optional().describe('Postal addresses, as a single street line or structured'),
+  org: z.array(z.string()).optional().describe('Array of organizations'),
+  title: z.string().optional().describe('Job title'),
+  role: z.string().optional().describe('Role or occupation'),
+  bday: z.string().optional().describe('Birthday (YYYY-MM-DD)'),
+  url: z.array(z.string()).optional().describe('Websites'),
+  note: z.string().optional().describe('Note'),
+  categories: z.array(z.string()).optional().describe('Groups the contact belongs to'),
+});
+
+/**
+ * Convert tool input, where emails, phones and addresses may be plain strings, to the contact model
+ */
+function toContact(input: z.infer<typeof contactSchema>): Partial<Contact> {
+  const typed = (item: z.infer<typeof typedValueSchema>) => typeof item === 'string' ? { value: item } : item;
+  const address = (item: z.infer<typeof addressSchema>): ContactAddress => typeof item === 'string' ? { street: item } : item;
+
+  return {
+    ...input,
+    email: input.email?.map(typed),
+    tel: input.tel?.map(typed),
+    adr: input.adr?.map(address),
+  };
+}
 
 /**
  * Register Contacts tools with the MCP server
@@ -68,14 +131,69 @@ export function registerContactsTools(server: McpServer) {
     }
   );
 
+  server.tool(
+    prefixToolName('contacts_export_addressbook'),
+    'Export all contacts of an address book as a single .vcf file, returned as text or saved to a file in Nextcloud',
+    {
+      addressBookId: z.string().describe('The ID of the address book'),
+      path: z.string().optional().describe('WebDAV path to save the .vcf file to, e.g. "/Documents/contacts.vcf". Returns the file content when omitted'),
+    },
+    async ({ addressBookId, path }) => {
+      const vcfData = await getClient(ContactsClient).exportAddressBook(addressBookId);
+      if (path) {
+        await getClient(WebDAVClient).writeFile(path, vcfData);
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: path
+              ? JSON.stringify({
+                status_code: 200,
+                message: `Address book ${addressBookId} exported successfully to ${path}`,
+              }, null, 2)
+              : vcfData,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('contacts_import_addressbook'),
+    'Import a .vcf file with one or more contacts into an address book, from a file in Nextcloud or inline text. Contacts are matched by UID; reports for each card whether it was created, updated or skipped',
+    {
+      addressBookId: z.string().describe('The ID of the address book to import into'),
+      path: z.string().optional().describe('WebDAV path of the .vcf file to import'),
+      vcfData: z.string().optional().describe('vCard text to import, instead of a file'),
+      skipExisting: z.boolean().optional().describe('Leave contacts that already exist (same UID) untouched instead of updating them'),
+    },
+    async ({ addressBookId, path, vcfData, skipExisting }) => {
+      if (!path && !vcfData) {
+        throw new Error('Either path or vcfData must be provided');
+      }
+      const data = vcfData ?? await getClient(WebDAVClient).readFile(path!);
+      const result = await getClient(ContactsClient).importAddressBook(addressBookId, data, { skipExisting });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
   server.tool(
     prefixToolName('contacts_list_contacts'),
-    'List contacts from an address book',
+    'List contacts from an address book, optionally only the members of a group',
     {
       addressBookId: z.string().describe('The ID of the address book'),
+      group: z.string().optional().describe('Only list contacts in this group'),
     },
-    async ({ addressBookId }) => {
-      const contacts = await getClient(ContactsClient).listContacts(addressBookId);
+    async ({ addressBookId, group }) => {
+      const contacts = await getClient(ContactsClient).listContacts(addressBookId, group);
       return {
         content: [
           {
@@ -87,22 +205,249 @@ export function registerContactsTools(server: McpServer) {
     }
   );
 
+  server.tool(
+    prefixToolName('contacts_list_groups'),
+    'List the contact groups of an address book with the number of contacts in each',
+    {
+      addressBookId: z.string().describe('The ID of the address book'),
+    },
+    async ({ addressBookId }) => {
+      const groups = await getClient(ContactsClient).listContactGroups(addressBookId);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(groups, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('contacts_add_to_group'),
+    'Add contacts to a group. The group is created when it does not exist yet. Returns the outcome per contact; one contact failing does not stop the others',
+    {
+      addressBookId: z.string().describe('The ID of the address book'),
+      group: z.string().describe('Name of the group'),
+      contactIds: z.array(z.string()).min(1).describe('IDs of the contacts to add'),
+    },
+    async ({ addressBookId, group, contactIds }) => {
+      const result = await getClient(ContactsClient).addContactsToGroup(addressBookId, group, contactIds);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('contacts_remove_from_group'),
+    'Remove contacts from a group. A group without members no longer exists. Returns the outcome per contact; one contact failing does not stop the others',
+    {
+      addressBookId: z.string().describe('The ID of the address book'),
+      group: z.string().describe('Name of the group'),
+      contactIds: z.array(z.string()).min(1).describe('IDs of the contacts to remove'),
+    },
+    async ({ addressBookId, group, contactIds }) => {
+      const result = await getClient(ContactsClient).removeContactsFromGroup(addressBookId, group, contactIds);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('contacts_search_contacts'),
+    'Search contacts in an address book by name, email, phone number or organization (case-insensitive substring match). Phone numbers match regardless of formatting and country code notation. Results are sorted by name and paged; use fields to return only the contact fields you need',
+    {
+      addressBookId: z.string().describe('The ID of the address book'),
+      query: z.string().describe('Text to search for, e.g. part of a name, an email address or a phone number'),
+      searchIn: z.array(z.enum(['fn', 'email', 'tel', 'org'])).optional().describe('Fields to search in (default: all of fn, email, tel and org)'),
+      limit: z.number().int().min(1).max(200).optional().describe('Maximum number of contacts to return (default: 25)'),
+      offset: z.number().int().min(0).optional().describe('Number of matching contacts to skip, for paging (default: 0)'),
+      fields: z.array(z.enum([
+        'uid', 'fn', 'n', 'nickname', 'email', 'tel', 'adr', 'org', 'title', 'role', 'bday', 'url', 'note', 'categories', 'hasPhoto', 'etag', 'uri', 'lastmodified',
+      ])).optional().describe('Only return these fields of each contact (the id is always included), e.g. ["fn", "email"]'),
+    },
+    async ({ addressBookId, query, searchIn, limit, offset, fields }) => {
+      const result = await getClient(ContactsClient).searchContacts(addressBookId, { query, searchIn, limit, offset, fields });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('contacts_find_duplicates'),
+    'Find contacts in an address book that are probably duplicates, based on shared email addresses or phone numbers and similar names. Each group comes with a confidence score and the reasons for the match',
+    {
+      addressBookId: z.string().describe('The ID of the address book'),
+      minConfidence: z.number().min(0).max(1).optional().describe('Only report groups matching with at least this confidence, from 0 to 1 (default 0.6). A shared email scores 0.95, a shared phone 0.85, an identical name 0.8'),
+    },
+    async ({ addressBookId, minConfidence }) => {
+      const groups = await getClient(ContactsClient).findDuplicateContacts(addressBookId, minConfidence);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(groups, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('contacts_merge_contacts'),
+    'Merge duplicate contacts into one and delete the others. The primary contact keeps its values and gains the emails, phones, addresses, groups and missing details of the others. Use dryRun to preview the merged contact first; the preview lists the contacts that would be deleted as wouldDelete',
+    {
+      addressBookId: z.string().describe('The ID of the address book'),
+      contactIds: z.array(z.string()).min(2).describe('IDs of the contacts to merge'),
+      primaryId: z.string().optional().describe('ID of the contact to keep (default: the first of contactIds)'),
+      dryRun: z.boolean().optional().describe('Only show the merged contact without changing anything'),
+    },
+    async ({ addressBookId, contactIds, primaryId, dryRun }) => {
+      const result = await getClient(ContactsClient).mergeContacts(addressBookId, contactIds, { primaryId, dryRun });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
   server.tool(
     prefixToolName('contacts_create_contact'),
     'Create a new contact',
     {
       addressBookId: z.string().describe('The ID of the address book'),
-      contact: z.object({
-        fn: z.string().optional().describe('Full name'),
-        email: z.array(z.string()).optional().describe('Array of email addresses'),
-        tel: z.array(z.string()).optional().describe('Array of phone numbers'),
-        adr: z.array(z.string()).optional().describe('Array of addresses'),
-        org: z.array(z.string()).optional().describe('Array of organizations'),
-        note: z.string().optional().describe('Note'),
-      }).describe('Contact information'),
+      contact: contactSchema.describe('Contact information'),
     },
     async ({ addressBookId, contact }) => {
-      const result = await getClient(ContactsClient).createContact(addressBookId, contact);
+      const result = await getClient(ContactsClient).createContact(addressBookId, toContact(contact));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('contacts_update_contact'),
+    'Update an existing contact. Only the supplied fields are changed; the UID, photo and any other properties are preserved. A supplied list (emails, phones, ...) replaces the existing one. Fails if the contact was modified by someone else in the meantime',
+    {
+      addressBookId: z.string().describe('The ID of the address book'),
+      contactId: z.string().describe('The ID of the contact'),
+      contact: contactSchema.extend({
+        etag: z.string().optional().describe('ETag of the version being edited, as returned when the contact was read. Defaults to the current server version'),
+      }).describe('Updated contact information'),
+    },
+    async ({ addressBookId, contactId, contact }) => {
+      const result = await getClient(ContactsClient).updateContact(addressBookId, contactId, toContact(contact));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('contacts_get_photo'),
+    'Get the photo of a contact as an image',
+    {
+      addressBookId: z.string().describe('The ID of the address book'),
+      contactId: z.string().describe('The ID of the contact'),
+    },
+    async ({ addressBookId, contactId }) => {
+      const photo = await getClient(ContactsClient).getContactPhoto(addressBookId, contactId);
+      if (!photo?.data) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: photo?.url
+                ? `The photo of contact ${contactId} is not embedded; it is stored at ${photo.url}`
+                : `Contact ${contactId} has no photo`,
+            },
+          ],
+        };
+      }
+      return {
+        content: [
+          {
+            type: 'image',
+            data: photo.data,
+            mimeType: photo.mediaType || 'image/jpeg',
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('contacts_set_photo'),
+    'Set the photo of a contact from an image file in Nextcloud or from base64 data, replacing any existing photo. Images must be at most 1 MB. Other contact details are left untouched',
+    {
+      addressBookId: z.string().describe('The ID of the address book'),
+      contactId: z.string().describe('The ID of the contact'),
+      path: z.string().optional().describe('WebDAV path of the image file, e.g. "Photos/jane.jpg"'),
+      data: z.string().optional().describe('Base64 image data (or a data: URI), instead of a file'),
+      mediaType: z.string().optional().describe('Image type such as "image/png". Detected from the data when omitted'),
+      etag: z.string().optional().describe('ETag of the version being edited. Defaults to the current server version'),
+    },
+    async ({ addressBookId, contactId, path, data, mediaType, etag }) => {
+      if (!path && !data) {
+        throw new Error('Either path or data must be provided');
+      }
+      const photoData = data ?? (await getClient(WebDAVClient).readBinaryFile(path!)).toString('base64');
+      const result = await getClient(ContactsClient).setContactPhoto(addressBookId, contactId, { data: photoData, mediaType }, etag);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('contacts_remove_photo'),
+    'Remove the photo of a contact',
+    {
+      addressBookId: z.string().describe('The ID of the address book'),
+      contactId: z.string().describe('The ID of the contact'),
+      etag: z.string().optional().describe('ETag of the version being edited. Defaults to the current server version'),
+    },
+    async ({ addressBookId, contactId, etag }) => {
+      const result = await getClient(ContactsClient).removeContactPhoto(addressBookId, contactId, etag);
       return {
         content: [
           {
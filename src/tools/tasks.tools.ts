@@ -0,0 +1,144 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { getClient } from '../utils/client-manager.js';
+import { TasksClient } from '../client/tasks.js';
+import { prefixToolName } from '../utils/tool-naming.js';
+
+const taskStatusSchema = z.enum(['NEEDS-ACTION', 'IN-PROCESS', 'COMPLETED', 'CANCELLED']);
+
+/**
+ * Register Tasks (VTODO) tools with the MCP server
+ * @param server MCP server instance
+ */
+export function registerTasksTools(server: McpServer) {
+  server.tool(
+    prefixToolName('tasks_list_task_lists'),
+    'List all task lists (calendars that can hold tasks)',
+    {},
+    async () => {
+      const taskLists = await getClient(TasksClient).listTaskLists();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(taskLists, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('tasks_list_tasks'),
+    'List the tasks of a task list in their manual order, optionally filtered by status or parent task. Subtasks carry the UID of their parent in parentUid',
+    {
+      calendarId: z.string().describe('The ID of the task list'),
+      status: z.array(taskStatusSchema).optional().describe('Only return tasks with one of these statuses, e.g. ["NEEDS-ACTION", "IN-PROCESS"] for open tasks'),
+      parentUid: z.string().optional().describe('Only return subtasks of the task with this UID'),
+    },
+    async ({ calendarId, status, parentUid }) => {
+      const tasks = await getClient(TasksClient).listTasks(calendarId, { status, parentUid });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(tasks, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('tasks_create_task'),
+    'Create a new task, optionally as a subtask of another task',
+    {
+      calendarId: z.string().describe('The ID of the task list'),
+      task: z.object({
+        summary: z.string().describe('Task title'),
+        description: z.string().optional().describe('Task description'),
+        due: z.string().optional().describe('Due date/time (ISO format). A plain date (YYYY-MM-DD) sets a due day without a time'),
+        timezone: z.string().optional().describe('IANA timezone of the due time, e.g. "Europe/Berlin"'),
+        priority: z.number().int().min(0).max(9).optional().describe('Priority from 1 (highest) to 9 (lowest), 0 for none'),
+        percentComplete: z.number().int().min(0).max(100).optional().describe('Progress in percent'),
+        categories: z.array(z.string()).optional().describe('Categories/tags'),
+        parentUid: z.string().optional().describe('UID of the parent task, to create a subtask'),
+      }).describe('Task data'),
+    },
+    async ({ calendarId, task }) => {
+      const result = await getClient(TasksClient).createTask(calendarId, task);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('tasks_complete_task'),
+    'Mark a task as completed, or reopen a completed task',
+    {
+      calendarId: z.string().describe('The ID of the task list'),
+      taskId: z.string().describe('The ID of the task'),
+      completed: z.boolean().optional().describe('false to reopen the task (default true)'),
+    },
+    async ({ calendarId, taskId, completed }) => {
+      const result = await getClient(TasksClient).completeTask(calendarId, taskId, completed ?? true);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('tasks_reorder_tasks'),
+    'Set the manual order of tasks in a task list',
+    {
+      calendarId: z.string().describe('The ID of the task list'),
+      taskIds: z.array(z.string()).describe('IDs of the tasks in the desired order'),
+    },
+    async ({ calendarId, taskIds }) => {
+      const tasks = await getClient(TasksClient).reorderTasks(calendarId, taskIds);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(tasks, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    prefixToolName('tasks_delete_task'),
+    'Delete a task',
+    {
+      calendarId: z.string().describe('The ID of the task list'),
+      taskId: z.string().describe('The ID of the task'),
+    },
+    async ({ calendarId, taskId }) => {
+      await getClient(TasksClient).deleteTask(calendarId, taskId);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              status_code: 200,
+              message: `Task ${taskId} deleted successfully from task list ${calendarId}`,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -5,6 +5,7 @@ import { WebDAVClient } from '../client/webdav.js';
 import { prefixToolName } from '../utils/tool-naming.js';
 import { SearchEngine } from '../utils/search-engine.js';
 import { SearchScope } from '../models/webdav-search.js';
+import { resolveDateRangeFilter } from '../utils/date-expression.js';
 
 /**
  * Register WebDAV tools with the MCP server
@@ -150,8 +151,9 @@ export function registerWebDAVTools(server: McpServer) {
       }).optional()
         .describe('Filter by file size range'),
       dateRange: z.object({
-        from: z.string().optional().describe('Start date (ISO format: YYYY-MM-DD)'),
-        to: z.string().optional().describe('End date (ISO format: YYYY-MM-DD)')
+        from: z.string().optional().describe('Start date: ISO date (YYYY-MM-DD) or an expression like "yesterday", "last monday", "last 2 weeks" or "this month". A period also sets the end when "to" is omitted'),
+        to: z.string().optional().describe('End date: ISO date (YYYY-MM-DD) or an expression like "today"'),
+        timeZone: z.string().optional().describe('IANA timezone for relative dates, e.g. "Europe/Berlin" (default UTC)')
       }).optional()
         .describe('Filter by last modified date range'),
       quickSearch: z.boolean()
@@ -168,18 +170,18 @@ export function registerWebDAVTools(server: McpServer) {
       console.log('WebDAV unified search started with options:', options);
       
       try {
+        // Resolve relative dates once so the filter and the echoed range agree
+        const resolvedDateRange = resolveDateRangeFilter(options.dateRange);
+
         // Add timeout handling for the entire operation
         const SEARCH_TIMEOUT = 20000; // 20 seconds
         
         const searchPromise = (async () => {
-          // Parse date ranges if provided
+          // Pass the already resolved date range
           const searchOptions = {
             ...options,
             searchIn: options.searchIn as SearchScope[],
-            dateRange: options.dateRange ? {
-              from: options.dateRange.from ? new Date(options.dateRange.from) : undefined,
-              to: options.dateRange.to ? new Date(options.dateRange.to) : undefined
-            } : undefined
+            dateRange: resolvedDateRange
           };
 
           // Optimize search parameters for root directory searches
@@ -245,7 +247,13 @@ export function registerWebDAVTools(server: McpServer) {
           quickSearchEnabled: options.quickSearch !== false && (options.basePath === '/' || !options.basePath),
           ...(options.fileTypes && { fileTypesFilter: options.fileTypes }),
           ...(options.sizeRange && { sizeRangeFilter: options.sizeRange }),
-          ...(options.dateRange && { dateRangeFilter: options.dateRange })
+          ...(resolvedDateRange && {
+            dateRangeFilter: {
+              ...options.dateRange,
+              resolvedFrom: resolvedDateRange.from?.toISOString(),
+              resolvedTo: resolvedDateRange.to?.toISOString()
+            }
+          })
         };
 
         console.log(`Search completed in ${searchDuration}ms with ${results.length} results`);
@@ -0,0 +1,166 @@
+import { utcToZonedTime, zonedTimeToUtc } from './timezone.js';
+
+/**
+ * Helpers for combining busy periods and finding free meeting slots
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface WorkingHours {
+  start: string;      // Local start of the working day, "HH:MM"
+  end: string;        // Local end of the working day, "HH:MM"
+  days: number[];     // Working weekdays, 0 = Sunday ... 6 = Saturday
+  timeZone: string;   // IANA timezone the hours are expressed in
+}
+
+export interface SlotSearchOptions {
+  rangeStart: Date;
+  rangeEnd: Date;
+  duration: number;             // Minimum slot length in milliseconds
+  busy: TimeInterval[];
+  workingHours?: WorkingHours;
+  maxSlots?: number;
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  start: '09:00',
+  end: '17:00',
+  days: [1, 2, 3, 4, 5],
+  timeZone: 'UTC',
+};
+
+/**
+ * Sort intervals and merge the ones that overlap or touch
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = intervals
+    .filter(interval => interval.end > interval.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: TimeInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) {
+        last.end = interval.end;
+      }
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Working-hour windows between two instants, one per working day
+ */
+export function getWorkingWindows(rangeStart: Date, rangeEnd: Date, workingHours: WorkingHours): TimeInterval[] {
+  const [startMinutes, endMinutes] = [workingHours.start, workingHours.end].map(parseTimeOfDay);
+  if (endMinutes <= startMinutes) {
+    throw new Error(`Working hours must end after they start: ${workingHours.start}-${workingHours.end}`);
+  }
+
+  const windows: TimeInterval[] = [];
+  const firstDay = utcToZonedTime(rangeStart, workingHours.timeZone);
+  let day = new Date(Date.UTC(firstDay.getUTCFullYear(), firstDay.getUTCMonth(), firstDay.getUTCDate()));
+
+  while (zonedTimeToUtc(day, workingHours.timeZone) < rangeEnd) {
+    if (workingHours.days.includes(day.getUTCDay())) {
+      const start = zonedTimeToUtc(new Date(day.getTime() + startMinutes * MINUTE_MS), workingHours.timeZone);
+      const end = zonedTimeToUtc(new Date(day.getTime() + endMinutes * MINUTE_MS), workingHours.timeZone);
+      const clipped = {
+        start: start < rangeStart ? rangeStart : start,
+        end: end > rangeEnd ? rangeEnd : end,
+      };
+      if (clipped.end > clipped.start) {
+        windows.push(clipped);
+      }
+    }
+    day = new Date(day.getTime() + DAY_MS);
+  }
+
+  return windows;
+}
+
+/**
+ * Free periods of at least the requested duration, inside working hours
+ * (when given) and outside every busy interval
+ */
+export function findFreeSlots(options: SlotSearchOptions): TimeInterval[] {
+  const windows = options.workingHours
+    ? getWorkingWindows(options.rangeStart, options.rangeEnd, options.workingHours)
+    : [{ start: options.rangeStart, end: options.rangeEnd }];
+  const busy = mergeIntervals(options.busy);
+  const slots: TimeInterval[] = [];
+
+  for (const window of windows) {
+    let cursor = window.start;
+
+    for (const interval of busy) {
+      if (interval.end <= cursor || interval.start >= window.end) {
+        continue;
+      }
+      if (interval.start.getTime() - cursor.getTime() >= options.duration) {
+        slots.push({ start: cursor, end: interval.start });
+      }
+      if (interval.end > cursor) {
+        cursor = interval.end;
+      }
+    }
+
+    if (window.end.getTime() - cursor.getTime() >= options.duration) {
+      slots.push({ start: cursor, end: window.end });
+    }
+
+    if (options.maxSlots !== undefined && slots.length >= options.maxSlots) {
+      return slots.slice(0, options.maxSlots);
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Every pair of intervals that overlap, with the overlapping period.
+ * Intervals that merely touch do not count.
+ */
+export function findOverlaps<T extends TimeInterval>(intervals: T[]): { first: T; second: T; start: Date; end: Date }[] {
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const overlaps: { first: T; second: T; start: Date; end: Date }[] = [];
+  let active: T[] = [];
+
+  for (const interval of sorted) {
+    active = active.filter(other => other.end > interval.start);
+    for (const other of active) {
+      overlaps.push({
+        first: other,
+        second: interval,
+        start: interval.start,
+        end: other.end < interval.end ? other.end : interval.end,
+      });
+    }
+    if (interval.end > interval.start) {
+      active.push(interval);
+    }
+  }
+
+  return overlaps;
+}
+
+/**
+ * Parse "HH:MM" into minutes after midnight
+ */
+function parseTimeOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match || Number(match[1]) > 24 || Number(match[2]) > 59) {
+    throw new Error(`Invalid time of day: ${value}. Expected HH:MM`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
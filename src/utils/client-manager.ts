@@ -1,11 +1,13 @@
 import { NotesClient } from '../client/notes.js';
 import { CalendarClient } from '../client/calendar.js';
+import { TasksClient } from '../client/tasks.js';
 import { ContactsClient } from '../client/contacts.js';
 import { TablesClient } from '../client/tables.js';
 import { WebDAVClient } from '../client/webdav.js';
 
 let notesClient: NotesClient | undefined;
 let calendarClient: CalendarClient | undefined;
+let tasksClient: TasksClient | undefined;
 let contactsClient: ContactsClient | undefined;
 let tablesClient: TablesClient | undefined;
 let webDAVClient: WebDAVClient | undefined;
@@ -17,6 +19,7 @@ export function setCredentials(host: string, username: string, password: string)
   // Reset clients so they get re-initialized with new credentials
   notesClient = undefined;
   calendarClient = undefined;
+  tasksClient = undefined;
   contactsClient = undefined;
   tablesClient = undefined;
   webDAVClient = undefined;
@@ -50,6 +53,7 @@ function ensureClientsInitialized() {
   if (!notesClient) {
     notesClient = new NotesClient(credentials.host, credentials.username, credentials.password);
     calendarClient = new CalendarClient(credentials.host, credentials.username, credentials.password);
+    tasksClient = new TasksClient(credentials.host, credentials.username, credentials.password);
     contactsClient = new ContactsClient(credentials.host, credentials.username, credentials.password);
     tablesClient = new TablesClient(credentials.host, credentials.username, credentials.password);
     webDAVClient = new WebDAVClient(credentials.host, credentials.username, credentials.password);
@@ -65,6 +69,9 @@ export function getClient<T>(client: new (...args: any[]) => T): T {
   if (client === CalendarClient) {
     return calendarClient as any;
   }
+  if (client === TasksClient) {
+    return tasksClient as any;
+  }
   if (client === ContactsClient) {
     return contactsClient as any;
   }
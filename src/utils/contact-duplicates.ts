@@ -0,0 +1,189 @@
+import { Contact } from '../models/contacts.js';
+import { normalizeEmailAddress, normalizePhoneNumber } from './contact-normalization.js';
+
+/**
+ * Helpers for finding contacts that probably describe the same person
+ */
+
+export interface DuplicateMatch {
+  confidence: number;   // 0 to 1
+  reasons: string[];
+}
+
+export interface DuplicateCluster {
+  contacts: Contact[];
+  confidence: number;   // Weakest match that joined the cluster
+  reasons: string[];
+}
+
+// Scores of the individual signals; independent signals are combined so that
+// two weak hints together count more than either one alone
+const EMAIL_SCORE = 0.95;
+const PHONE_SCORE = 0.85;
+const NAME_SCORE = 0.8;
+const MIN_NAME_SIMILARITY = 0.85;
+
+// Shorter numbers (extensions, service numbers) say too little about a person
+const MIN_PHONE_DIGITS = 7;
+// Compare the national part only, so "+49 30 1234567" still matches "030 1234567"
+// when no default region is configured to normalize the latter
+const PHONE_SUFFIX_DIGITS = 9;
+// Contacts sharing the start of a common name word ("joh") can be many; within
+// such a group each contact is only compared with its neighbours by name
+const NAME_CANDIDATE_WINDOW = 25;
+
+export function normalizePhoneForMatching(phone: string): string | undefined {
+  const digits = (normalizePhoneNumber(phone) || phone).replace(/\D/g, '');
+  return digits.length >= MIN_PHONE_DIGITS ? digits.slice(-PHONE_SUFFIX_DIGITS) : undefined;
+}
+
+/**
+ * Lower-cased name without accents or punctuation and with the words sorted,
+ * so "Doe, Jane" and "Jane Doe" compare equal
+ */
+export function normalizeNameForMatching(contact: Pick<Contact, 'fn' | 'n'>): string {
+  const name = contact.fn || [contact.n?.givenName, contact.n?.additionalNames, contact.n?.familyName].filter(Boolean).join(' ');
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+/**
+ * Similarity of two strings from 0 (nothing in common) to 1 (equal), based on
+ * the Levenshtein distance
+ */
+export function stringSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+/**
+ * How likely two contacts are the same person, and why
+ */
+export function compareContacts(a: Contact, b: Contact): DuplicateMatch {
+  const scores: number[] = [];
+  const reasons: string[] = [];
+
+  const emails = new Set((a.email || []).map(email => normalizeEmailAddress(email.value)));
+  const sharedEmail = (b.email || []).find(email => emails.has(normalizeEmailAddress(email.value)));
+  if (sharedEmail) {
+    scores.push(EMAIL_SCORE);
+    reasons.push(`same email ${normalizeEmailAddress(sharedEmail.value)}`);
+  }
+
+  const phones = new Set((a.tel || []).map(tel => normalizePhoneForMatching(tel.value)).filter(Boolean));
+  const sharedPhone = (b.tel || []).find(tel => phones.has(normalizePhoneForMatching(tel.value)));
+  if (sharedPhone) {
+    scores.push(PHONE_SCORE);
+    reasons.push(`same phone ${sharedPhone.value}`);
+  }
+
+  const similarity = stringSimilarity(normalizeNameForMatching(a), normalizeNameForMatching(b));
+  if (similarity >= MIN_NAME_SIMILARITY) {
+    scores.push(NAME_SCORE * similarity);
+    reasons.push(similarity === 1 ? 'same name' : `similar names (${Math.round(similarity * 100)}%)`);
+  }
+
+  const confidence = 1 - scores.reduce((remaining, score) => remaining * (1 - score), 1);
+  return { confidence: Math.round(confidence * 100) / 100, reasons };
+}
+
+/**
+ * Group contacts that match with at least the given confidence. Only contacts
+ * sharing an email, a phone number or the start of a name word are compared,
+ * and name groups only within a window of similar names, which keeps large
+ * address books fast.
+ */
+export function findDuplicateClusters(contacts: Contact[], minConfidence: number = 0.6): DuplicateCluster[] {
+  const candidates = new Map<string, number[]>();
+  const addCandidate = (key: string, index: number) => {
+    const indexes = candidates.get(key) || [];
+    indexes.push(index);
+    candidates.set(key, indexes);
+  };
+
+  const names = contacts.map(contact => normalizeNameForMatching(contact));
+  contacts.forEach((contact, index) => {
+    for (const email of contact.email || []) {
+      addCandidate(`email:${normalizeEmailAddress(email.value)}`, index);
+    }
+    for (const tel of contact.tel || []) {
+      const phone = normalizePhoneForMatching(tel.value);
+      if (phone) addCandidate(`tel:${phone}`, index);
+    }
+    for (const word of new Set(names[index].split(' ').filter(Boolean))) {
+      addCandidate(`name:${word.substring(0, 3)}`, index);
+    }
+  });
+
+  // Union-find over the matching pairs
+  const parent = contacts.map((_, index) => index);
+  const find = (index: number): number => parent[index] === index ? index : (parent[index] = find(parent[index]));
+  const matches = new Map<number, DuplicateMatch[]>();
+  const compared = new Set<number>();
+
+  for (const [key, indexes] of candidates) {
+    const windowed = key.startsWith('name:') && indexes.length > NAME_CANDIDATE_WINDOW;
+    if (windowed) {
+      indexes.sort((a, b) => names[a].localeCompare(names[b]));
+    }
+    for (let i = 0; i < indexes.length; i++) {
+      const last = windowed ? Math.min(indexes.length, i + 1 + NAME_CANDIDATE_WINDOW) : indexes.length;
+      for (let j = i + 1; j < last; j++) {
+        const pair = Math.min(indexes[i], indexes[j]) * contacts.length + Math.max(indexes[i], indexes[j]);
+        if (compared.has(pair)) continue;
+        compared.add(pair);
+
+        const match = compareContacts(contacts[indexes[i]], contacts[indexes[j]]);
+        if (match.confidence < minConfidence) continue;
+
+        const rootA = find(indexes[i]);
+        const rootB = find(indexes[j]);
+        const joined = [...(matches.get(rootA) || []), ...(rootA !== rootB ? matches.get(rootB) || [] : []), match];
+        parent[rootB] = rootA;
+        matches.delete(rootB);
+        matches.set(rootA, joined);
+      }
+    }
+  }
+
+  const clusters = new Map<number, Contact[]>();
+  contacts.forEach((contact, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) || []), contact]);
+  });
+
+  return [...clusters.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => {
+      const clusterMatches = matches.get(root) || [];
+      return {
+        contacts: members,
+        confidence: Math.min(...clusterMatches.map(match => match.confidence)),
+        reasons: [...new Set(clusterMatches.flatMap(match => match.reasons))],
+      };
+    })
+    .sort((a, b) => b.confidence - a.confidence);
+}
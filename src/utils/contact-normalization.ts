@@ -0,0 +1,154 @@
+import { domainToASCII, domainToUnicode } from 'url';
+
+/**
+ * Canonical forms of phone numbers (E.164) and email addresses, so that
+ * "030 1234567" and "+49 30 1234567" or "Jane@Bücher.de" and
+ * "jane@xn--bcher-kva.de" are recognized as the same. Contacts keep the form
+ * they were entered in; these are only used for comparing.
+ */
+
+interface PhoneRegion {
+  callingCode: string;
+  trunkPrefix?: string;           // Dialled before national numbers, e.g. "0" in Germany
+  internationalPrefix?: string;   // Dialled before a calling code, "00" when omitted
+}
+
+/**
+ * Numbering of the regions a default region can be set for, by ISO 3166 code
+ */
+const PHONE_REGIONS: Record<string, PhoneRegion> = {
+  AE: { callingCode: '971', trunkPrefix: '0' },
+  AR: { callingCode: '54', trunkPrefix: '0' },
+  AT: { callingCode: '43', trunkPrefix: '0' },
+  AU: { callingCode: '61', trunkPrefix: '0', internationalPrefix: '0011' },
+  BE: { callingCode: '32', trunkPrefix: '0' },
+  BR: { callingCode: '55', trunkPrefix: '0' },
+  CA: { callingCode: '1', trunkPrefix: '1', internationalPrefix: '011' },
+  CH: { callingCode: '41', trunkPrefix: '0' },
+  CN: { callingCode: '86', trunkPrefix: '0' },
+  CZ: { callingCode: '420' },
+  DE: { callingCode: '49', trunkPrefix: '0' },
+  DK: { callingCode: '45' },
+  EG: { callingCode: '20', trunkPrefix: '0' },
+  ES: { callingCode: '34' },
+  FI: { callingCode: '358', trunkPrefix: '0' },
+  FR: { callingCode: '33', trunkPrefix: '0' },
+  GB: { callingCode: '44', trunkPrefix: '0' },
+  GR: { callingCode: '30' },
+  HU: { callingCode: '36', trunkPrefix: '06' },
+  ID: { callingCode: '62', trunkPrefix: '0' },
+  IE: { callingCode: '353', trunkPrefix: '0' },
+  IL: { callingCode: '972', trunkPrefix: '0' },
+  IN: { callingCode: '91', trunkPrefix: '0' },
+  IT: { callingCode: '39' },                      // The leading 0 is part of the number
+  JP: { callingCode: '81', trunkPrefix: '0', internationalPrefix: '010' },
+  KE: { callingCode: '254', trunkPrefix: '0' },
+  KR: { callingCode: '82', trunkPrefix: '0', internationalPrefix: '001' },
+  LU: { callingCode: '352' },
+  MX: { callingCode: '52' },
+  MY: { callingCode: '60', trunkPrefix: '0' },
+  NG: { callingCode: '234', trunkPrefix: '0' },
+  NL: { callingCode: '31', trunkPrefix: '0' },
+  NO: { callingCode: '47' },
+  NZ: { callingCode: '64', trunkPrefix: '0' },
+  PH: { callingCode: '63', trunkPrefix: '0' },
+  PL: { callingCode: '48' },
+  PT: { callingCode: '351' },
+  RU: { callingCode: '7', trunkPrefix: '8', internationalPrefix: '810' },
+  SE: { callingCode: '46', trunkPrefix: '0' },
+  SG: { callingCode: '65' },
+  SK: { callingCode: '421', trunkPrefix: '0' },
+  TH: { callingCode: '66', trunkPrefix: '0' },
+  TR: { callingCode: '90', trunkPrefix: '0' },
+  UA: { callingCode: '380', trunkPrefix: '0' },
+  US: { callingCode: '1', trunkPrefix: '1', internationalPrefix: '011' },
+  VN: { callingCode: '84', trunkPrefix: '0' },
+  ZA: { callingCode: '27', trunkPrefix: '0' },
+};
+
+let defaultPhoneRegion: string | undefined;
+let defaultPhoneRegionResolved = false;
+
+/**
+ * Set the region for numbers written without a country code (ISO 3166 code,
+ * e.g. "DE"). Unsupported regions are reported once and ignored.
+ */
+export function setDefaultPhoneRegion(region: string | undefined): void {
+  const code = region?.trim().toUpperCase();
+  if (code && !PHONE_REGIONS[code]) {
+    console.warn(`Unsupported default phone region ${code}; supported are ${Object.keys(PHONE_REGIONS).join(', ')}`);
+  }
+  defaultPhoneRegion = code && PHONE_REGIONS[code] ? code : undefined;
+  defaultPhoneRegionResolved = true;
+}
+
+/**
+ * Region for numbers written without a country code, as configured or from
+ * NEXTCLOUD_DEFAULT_PHONE_REGION
+ */
+export function getDefaultPhoneRegion(): string | undefined {
+  if (!defaultPhoneRegionResolved) {
+    setDefaultPhoneRegion(process.env.NEXTCLOUD_DEFAULT_PHONE_REGION);
+  }
+  return defaultPhoneRegion;
+}
+
+/**
+ * E.164 form of a phone number ("+49301234567"), or undefined when it cannot
+ * be determined: national numbers need a region, and the result must have
+ * 7 to 15 digits. Extensions are dropped.
+ */
+export function normalizePhoneNumber(phone: string, region: string | undefined = getDefaultPhoneRegion()): string | undefined {
+  const number = phone
+    .trim()
+    .replace(/^tel:/i, '')
+    .replace(/(;ext=|\s*(ext\.?|x|#)\s*)\d+$/i, '');
+  let digits = number.replace(/\D/g, '');
+
+  if (!number.startsWith('+')) {
+    const numbering = region ? PHONE_REGIONS[region.toUpperCase()] : undefined;
+    const internationalPrefix = numbering?.internationalPrefix || '00';
+
+    if (digits.startsWith(internationalPrefix)) {
+      digits = digits.substring(internationalPrefix.length);
+    } else if (numbering) {
+      if (numbering.trunkPrefix && digits.startsWith(numbering.trunkPrefix)) {
+        digits = digits.substring(numbering.trunkPrefix.length);
+      }
+      digits = numbering.callingCode + digits;
+    } else {
+      return undefined;
+    }
+  }
+
+  return digits.length >= 7 && digits.length <= 15 ? `+${digits}` : undefined;
+}
+
+/**
+ * Lower-cased address with the domain in its ASCII (punycode) form
+ */
+export function normalizeEmailAddress(email: string): string {
+  const address = email.trim().replace(/^mailto:/i, '').toLowerCase();
+  const at = address.lastIndexOf('@');
+  if (at < 0) {
+    return address;
+  }
+  const domain = address.substring(at + 1);
+  return `${address.substring(0, at)}@${domainToASCII(domain) || domain}`;
+}
+
+/**
+ * Lower-cased address with the domain in its Unicode form, for matching
+ * search text typed with non-ASCII characters
+ */
+export function emailAddressForDisplay(email: string): string {
+  const address = normalizeEmailAddress(email);
+  const at = address.lastIndexOf('@');
+  return at < 0 ? address : `${address.substring(0, at)}@${domainToUnicode(address.substring(at + 1)) || address.substring(at + 1)}`;
+}
+
+export function isValidEmailAddress(email: string): boolean {
+  const address = email.trim().replace(/^mailto:/i, '');
+  const at = address.lastIndexOf('@');
+  return at > 0 && !/\s/.test(address) && domainToASCII(address.substring(at + 1).toLowerCase()).includes('.');
+}
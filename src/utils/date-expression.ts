@@ -0,0 +1,403 @@
+import { isValidTimeZone, parseWallClock, utcToZonedTime, zonedTimeToUtc } from './timezone.js';
+
+/**
+ * Resolve human date expressions ("today", "next tuesday", "last 2 weeks",
+ * "this month", "march 3 14:00 Europe/Berlin") and ISO dates into absolute
+ * ranges. Calendar arithmetic happens on wall-clock dates in the requested
+ * timezone, so days and weeks follow local midnight across DST changes.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+type Unit = 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+
+const UNIT_PATTERN = '(minute|min|hour|hr|day|week|wk|month|year|yr)s?';
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, sun: 0,
+  monday: 1, mon: 1,
+  tuesday: 2, tue: 2, tues: 2,
+  wednesday: 3, wed: 3,
+  thursday: 4, thu: 4, thur: 4, thurs: 4,
+  friday: 5, fri: 5,
+  saturday: 6, sat: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  january: 0, jan: 0,
+  february: 1, feb: 1,
+  march: 2, mar: 2,
+  april: 3, apr: 3,
+  may: 4,
+  june: 5, jun: 5,
+  july: 6, jul: 6,
+  august: 7, aug: 7,
+  september: 8, sep: 8, sept: 8,
+  october: 9, oct: 9,
+  november: 10, nov: 10,
+  december: 11, dec: 11,
+};
+
+export interface DateExpressionOptions {
+  timeZone?: string;    // IANA timezone for relative expressions (default UTC)
+  now?: Date;
+}
+
+export interface ResolvedDateExpression {
+  start: Date;
+  end: Date;            // Exclusive; equal to start for a point in time
+  timeZone: string;
+  literal: boolean;     // An ISO date or date-time, used as written when it is an upper bound
+}
+
+export interface ResolvedDateRange {
+  start?: Date;
+  end?: Date;
+  timeZone: string;
+}
+
+/**
+ * Resolve a single expression. A trailing IANA timezone ("... Europe/Berlin"
+ * or "... in Europe/Berlin") overrides the one in the options.
+ */
+export function parseDateExpression(expression: string, options: DateExpressionOptions = {}): ResolvedDateExpression {
+  let text = expression.trim();
+  let timeZone = options.timeZone || 'UTC';
+
+  const zoneMatch = /^(.*?)\s+(?:in\s+)?([A-Za-z_]+(?:\/[A-Za-z0-9_+\-]+)+|UTC|GMT)$/i.exec(text);
+  if (zoneMatch && isValidTimeZone(zoneMatch[2])) {
+    text = zoneMatch[1];
+    timeZone = zoneMatch[2];
+  }
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown timezone: ${timeZone}. Use an IANA name such as "Europe/Berlin".`);
+  }
+
+  const now = options.now || new Date();
+  const resolved = resolveRange(text.replace(/\s+/g, ' '), timeZone, now);
+  if (!resolved) {
+    throw new Error(
+      `Could not understand the date "${expression}". Use an ISO date such as 2026-03-14 or an expression like ` +
+      '"today", "next tuesday", "tomorrow 14:00", "last 2 weeks" or "this month"'
+    );
+  }
+
+  return { ...resolved, timeZone };
+}
+
+/**
+ * Resolve the two bounds of a range. An upper bound like "friday" includes
+ * the whole day, while ISO values are used as written. When only a start is
+ * given and it names a period ("last 2 weeks", "this month"), the period's
+ * end becomes the end of the range.
+ */
+export function resolveDateRange(from?: string, to?: string, options: DateExpressionOptions = {}): ResolvedDateRange {
+  const now = options.now || new Date();
+  const start = from ? parseDateExpression(from, { ...options, now }) : undefined;
+  let end = to ? parseDateExpression(to, { ...options, now }) : undefined;
+  if (start && end && upperBound(end) < start.start) {
+    // "monday" to "friday" on a Wednesday: read the end relative to the start
+    end = parseDateExpression(to!, { ...options, now: start.start });
+  }
+
+  const range: ResolvedDateRange = {
+    start: start?.start,
+    end: end
+      ? upperBound(end)
+      : start && !start.literal && start.end > start.start ? start.end : undefined,
+    timeZone: end?.timeZone || start?.timeZone || options.timeZone || 'UTC',
+  };
+
+  if (range.start && range.end && range.end < range.start) {
+    throw new Error(`The end of the range (${to}) is before its start (${from})`);
+  }
+
+  return range;
+}
+
+/**
+ * Resolve a from/to filter whose bounds may be dates or date expressions
+ * ("last 2 weeks", "yesterday") into absolute dates
+ */
+export function resolveDateRangeFilter(
+  dateRange?: { from?: Date | string; to?: Date | string; timeZone?: string }
+): { from?: Date; to?: Date } | undefined {
+  if (!dateRange) {
+    return undefined;
+  }
+
+  const range = resolveDateRange(
+    dateRange.from instanceof Date ? dateRange.from.toISOString() : dateRange.from,
+    dateRange.to instanceof Date ? dateRange.to.toISOString() : dateRange.to,
+    { timeZone: dateRange.timeZone }
+  );
+  return { from: range.start, to: range.end };
+}
+
+/**
+ * ISO form of a resolved range, for echoing back what was actually used
+ */
+export function formatDateRange(range: ResolvedDateRange): { start?: string; end?: string; timeZone: string } {
+  return {
+    ...(range.start && { start: range.start.toISOString() }),
+    ...(range.end && { end: range.end.toISOString() }),
+    timeZone: range.timeZone,
+  };
+}
+
+function upperBound(resolved: Omit<ResolvedDateExpression, 'timeZone'>): Date {
+  return resolved.literal ? resolved.start : resolved.end;
+}
+
+function resolveRange(text: string, timeZone: string, now: Date): Omit<ResolvedDateExpression, 'timeZone'> | undefined {
+  // "from X to Y", "between X and Y", "X until Y"
+  const rangeMatch = /^(?:from |between )?(.+?) (?:to|until|till|through|and|-) (.+)$/i.exec(text);
+  if (rangeMatch) {
+    const first = resolveSingle(rangeMatch[1], timeZone, now);
+    let second = resolveSingle(rangeMatch[2], timeZone, now);
+    if (first && second && upperBound(second) < first.start) {
+      second = resolveSingle(rangeMatch[2], timeZone, first.start);
+    }
+    if (first && second) {
+      return { start: first.start, end: upperBound(second), literal: false };
+    }
+  }
+
+  return resolveSingle(text, timeZone, now);
+}
+
+function resolveSingle(
+  original: string,
+  timeZone: string,
+  now: Date
+): Omit<ResolvedDateExpression, 'timeZone'> | undefined {
+  const text = original.toLowerCase();
+  const toUtc = (wall: Date) => zonedTimeToUtc(wall, timeZone);
+  const span = (wallStart: Date, wallEnd: Date) => ({ start: toUtc(wallStart), end: toUtc(wallEnd), literal: false });
+  const point = (instant: Date) => ({ start: instant, end: instant, literal: false });
+
+  const nowWall = utcToZonedTime(now, timeZone);
+  const today = startOf(nowWall, 'day');
+
+  // ISO values: with an offset they are absolute, otherwise wall-clock time in the timezone
+  if (/^\d{4}-?\d{2}-?\d{2}([t ]|$)/.test(text)) {
+    const trimmed = original.trim();
+    if (/(z|[+-]\d{2}:?\d{2})$/i.test(trimmed) && /[tT ]\d/.test(trimmed)) {
+      const instant = new Date(trimmed);
+      return isNaN(instant.getTime()) ? undefined : { start: instant, end: instant, literal: true };
+    }
+    const wall = parseWallClock(trimmed);
+    if (!wall) {
+      return undefined;
+    }
+    const isDate = /^\d{4}-?\d{2}-?\d{2}$/.test(trimmed);
+    return { ...span(wall, isDate ? addUnits(wall, 'day', 1) : wall), literal: true };
+  }
+
+  if (text === 'now') {
+    return point(now);
+  }
+
+  // A bare time of day means today
+  const todayMinutes = /^(?:at )?(\d{1,2}(?::\d{2})? ?(?:am|pm)|\d{1,2}:\d{2}|noon|midnight)$/.test(text)
+    ? parseTimeOfDay(text.replace(/^at /, ''))
+    : undefined;
+  if (todayMinutes !== undefined) {
+    return point(toUtc(new Date(today.getTime() + todayMinutes * MINUTE_MS)));
+  }
+
+  // A day followed by a time of day: "tomorrow 14:00", "friday at 3pm"
+  const timeMatch = /^(.+?) (?:at )?(\d{1,2}(?::\d{2})? ?(?:am|pm)|\d{1,2}:\d{2}|noon|midnight)$/.exec(text);
+  if (timeMatch) {
+    const day = resolveDay(timeMatch[1], today);
+    const minutes = parseTimeOfDay(timeMatch[2]);
+    return day && minutes !== undefined ? point(toUtc(new Date(day.getTime() + minutes * MINUTE_MS))) : undefined;
+  }
+
+  const day = resolveDay(text, today);
+  if (day) {
+    return span(day, addUnits(day, 'day', 1));
+  }
+
+  // "this week", "next month", "last year", "this weekend"
+  const periodMatch = /^(this|current|next|last|previous|past) (week|month|year|weekend)$/.exec(text);
+  if (periodMatch) {
+    const offset = { this: 0, current: 0, next: 1, last: -1, previous: -1, past: -1 }[periodMatch[1]]!;
+    if (periodMatch[2] === 'weekend') {
+      const saturday = addUnits(startOf(today, 'week'), 'day', 5 + offset * 7);
+      return span(saturday, addUnits(saturday, 'day', 2));
+    }
+    const unit = periodMatch[2] as Unit;
+    const periodStart = addUnits(startOf(today, unit), unit, offset);
+    return span(periodStart, addUnits(periodStart, unit, 1));
+  }
+
+  // "last 2 weeks", "past 24 hours", "next 3 days": rolling windows that include today
+  const rollingMatch = new RegExp(`^(last|past|previous|next|coming) (\\d+|a|an)? ?${UNIT_PATTERN}$`).exec(text);
+  if (rollingMatch) {
+    const unit = normalizeUnit(rollingMatch[3]);
+    const count = parseCount(rollingMatch[2]);
+    const forward = rollingMatch[1] === 'next' || rollingMatch[1] === 'coming';
+    if (unit === 'minute' || unit === 'hour') {
+      const shifted = new Date(now.getTime() + (forward ? 1 : -1) * count * (unit === 'hour' ? HOUR_MS : MINUTE_MS));
+      return forward ? { start: now, end: shifted, literal: false } : { start: shifted, end: now, literal: false };
+    }
+    return forward
+      ? span(today, addUnits(today, unit, count))
+      : span(addUnits(today, unit, -count), addUnits(today, 'day', 1));
+  }
+
+  // "in 3 days", "2 weeks ago"
+  const relativeMatch = new RegExp(`^(?:in (\\d+|a|an) ${UNIT_PATTERN}|(\\d+|a|an) ${UNIT_PATTERN} ago)$`).exec(text);
+  if (relativeMatch) {
+    const forward = relativeMatch[1] !== undefined;
+    const count = parseCount(forward ? relativeMatch[1] : relativeMatch[3]) * (forward ? 1 : -1);
+    const unit = normalizeUnit(forward ? relativeMatch[2] : relativeMatch[4]);
+    if (unit === 'minute' || unit === 'hour') {
+      return point(new Date(now.getTime() + count * (unit === 'hour' ? HOUR_MS : MINUTE_MS)));
+    }
+    const target = addUnits(today, unit, count);
+    return span(target, addUnits(target, 'day', 1));
+  }
+
+  // "march", "march 2027"
+  const monthMatch = /^([a-z]+) ?(\d{4})?$/.exec(text);
+  if (monthMatch && MONTHS[monthMatch[1]] !== undefined) {
+    const year = monthMatch[2] ? Number(monthMatch[2]) : today.getUTCFullYear();
+    const monthStart = new Date(Date.UTC(year, MONTHS[monthMatch[1]], 1));
+    return span(monthStart, addUnits(monthStart, 'month', 1));
+  }
+
+  return undefined;
+}
+
+/**
+ * Wall-clock midnight of a day named by a keyword, weekday or month and day
+ */
+function resolveDay(text: string, today: Date): Date | undefined {
+  switch (text) {
+    case 'today':
+      return today;
+    case 'tomorrow':
+      return addUnits(today, 'day', 1);
+    case 'yesterday':
+      return addUnits(today, 'day', -1);
+  }
+
+  // "monday" and "this monday" are the coming one (today included),
+  // "next monday" the first after today, "last monday" the latest before today
+  const weekdayMatch = /^(?:(this|next|last|previous|coming) )?([a-z]+)$/.exec(text);
+  if (weekdayMatch && WEEKDAYS[weekdayMatch[2]] !== undefined) {
+    const target = WEEKDAYS[weekdayMatch[2]];
+    const current = today.getUTCDay();
+    let offset = (target - current + 7) % 7;
+    if (weekdayMatch[1] === 'next' || weekdayMatch[1] === 'coming') {
+      offset = offset || 7;
+    } else if (weekdayMatch[1] === 'last' || weekdayMatch[1] === 'previous') {
+      offset = -(((current - target + 7) % 7) || 7);
+    }
+    return addUnits(today, 'day', offset);
+  }
+
+  // "march 3", "3rd march", "march 3 2027"
+  const monthDayMatch =
+    /^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?,? ?(\d{4})?$/.exec(text) ||
+    /^(\d{1,2})(?:st|nd|rd|th)? (?:of )?([a-z]+),? ?(\d{4})?$/.exec(text);
+  if (monthDayMatch) {
+    const [monthName, dayOfMonth] = /^\d/.test(monthDayMatch[1])
+      ? [monthDayMatch[2], monthDayMatch[1]]
+      : [monthDayMatch[1], monthDayMatch[2]];
+    const month = MONTHS[monthName];
+    if (month === undefined) {
+      return undefined;
+    }
+    const year = monthDayMatch[3] ? Number(monthDayMatch[3]) : today.getUTCFullYear();
+    const date = new Date(Date.UTC(year, month, Number(dayOfMonth)));
+    return date.getUTCMonth() === month ? date : undefined;
+  }
+
+  return undefined;
+}
+
+function startOf(wall: Date, unit: Unit): Date {
+  const day = new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate()));
+  switch (unit) {
+    case 'week':
+      // Weeks start on Monday (ISO 8601)
+      return addUnits(day, 'day', -((day.getUTCDay() + 6) % 7));
+    case 'month':
+      return new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), 1));
+    case 'year':
+      return new Date(Date.UTC(wall.getUTCFullYear(), 0, 1));
+    default:
+      return day;
+  }
+}
+
+function addUnits(wall: Date, unit: Unit, count: number): Date {
+  switch (unit) {
+    case 'minute':
+      return new Date(wall.getTime() + count * MINUTE_MS);
+    case 'hour':
+      return new Date(wall.getTime() + count * HOUR_MS);
+    case 'day':
+      return new Date(wall.getTime() + count * DAY_MS);
+    case 'week':
+      return new Date(wall.getTime() + count * 7 * DAY_MS);
+    case 'month':
+    case 'year': {
+      const months = unit === 'year' ? count * 12 : count;
+      const result = new Date(wall.getTime());
+      result.setUTCMonth(result.getUTCMonth() + months);
+      return result;
+    }
+  }
+}
+
+function normalizeUnit(unit: string): Unit {
+  switch (unit) {
+    case 'min':
+      return 'minute';
+    case 'hr':
+      return 'hour';
+    case 'wk':
+      return 'week';
+    case 'yr':
+      return 'year';
+    default:
+      return unit as Unit;
+  }
+}
+
+function parseCount(value?: string): number {
+  return !value || value === 'a' || value === 'an' ? 1 : Number(value);
+}
+
+/**
+ * "14:00", "2pm", "2:30 pm", "noon" and "midnight" as minutes after midnight
+ */
+function parseTimeOfDay(value: string): number | undefined {
+  if (value === 'noon') {
+    return 12 * 60;
+  }
+  if (value === 'midnight') {
+    return 0;
+  }
+
+  const match = /^(\d{1,2})(?::(\d{2}))? ?(am|pm)?$/.exec(value);
+  if (!match) {
+    return undefined;
+  }
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  if (match[3]) {
+    if (hours < 1 || hours > 12) {
+      return undefined;
+    }
+    hours = (hours % 12) + (match[3] === 'pm' ? 12 : 0);
+  }
+  return hours > 23 || minutes > 59 ? undefined : hours * 60 + minutes;
+}
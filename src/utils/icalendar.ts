@@ -0,0 +1,387 @@
+/**
+ * Helpers for working with iCalendar (RFC 5545) data
+ */
+
+/**
+ * Format a Date as an iCalendar UTC date-time (YYYYMMDDTHHMMSSZ)
+ */
+export function formatICalDateTimeUTC(date: Date): string {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  const hours = String(date.getUTCHours()).padStart(2, '0');
+  const minutes = String(date.getUTCMinutes()).padStart(2, '0');
+  const seconds = String(date.getUTCSeconds()).padStart(2, '0');
+
+  return `${year}${month}${day}T${hours}${minutes}${seconds}Z`;
+}
+
+/**
+ * Convert an ISO 8601 or iCalendar date/time string to an iCalendar UTC date-time.
+ * Returns undefined when the value cannot be parsed.
+ */
+export function toICalDateTimeUTC(value: string): string | undefined {
+  const date = parseICalDateTime(value);
+  return date ? formatICalDateTimeUTC(date) : undefined;
+}
+
+/**
+ * Parse an iCalendar DATE or DATE-TIME value (or an ISO 8601 string) into a Date.
+ * Floating times (no Z suffix) are interpreted as UTC.
+ */
+export function parseICalDateTime(value: string): Date | undefined {
+  const trimmed = value.trim();
+
+  const dateTimeMatch = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z?$/.exec(trimmed);
+  if (dateTimeMatch) {
+    const [, year, month, day, hours, minutes, seconds] = dateTimeMatch.map(Number);
+    return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+  }
+
+  const dateMatch = /^(\d{4})(\d{2})(\d{2})$/.exec(trimmed);
+  if (dateMatch) {
+    const [, year, month, day] = dateMatch.map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+
+  const parsed = new Date(trimmed);
+  return isNaN(parsed.getTime()) ? undefined : parsed;
+}
+
+/**
+ * Check whether an iCalendar value is a DATE (all-day) rather than a DATE-TIME
+ */
+export function isICalDate(value: string): boolean {
+  return /^\d{8}$/.test(value.trim());
+}
+
+/**
+ * Format a wall-clock Date in the same shape as a reference iCalendar value:
+ * DATE for all-day values, UTC DATE-TIME for "Z" values, floating DATE-TIME otherwise
+ */
+export function formatICalDateTimeLike(date: Date, reference: string): string {
+  const utcValue = formatICalDateTimeUTC(date);
+  if (isICalDate(reference)) {
+    return utcValue.substring(0, 8);
+  }
+  return reference.trim().endsWith('Z') ? utcValue : utcValue.slice(0, -1);
+}
+
+/**
+ * Parse an iCalendar DURATION value (e.g. "PT1H30M", "-P1D", "P2W") into milliseconds
+ */
+export function parseICalDuration(value: string): number | undefined {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const milliseconds =
+    (Number(weeks || 0) * 7 * 24 * 60 * 60 +
+      Number(days || 0) * 24 * 60 * 60 +
+      Number(hours || 0) * 60 * 60 +
+      Number(minutes || 0) * 60 +
+      Number(seconds || 0)) * 1000;
+
+  return sign === '-' ? -milliseconds : milliseconds;
+}
+
+/**
+ * Format milliseconds as an iCalendar DURATION value (e.g. -PT15M, P1D)
+ */
+export function formatICalDuration(milliseconds: number): string {
+  const sign = milliseconds < 0 ? '-' : '';
+  let seconds = Math.round(Math.abs(milliseconds) / 1000);
+
+  const days = Math.floor(seconds / 86400);
+  seconds -= days * 86400;
+  const hours = Math.floor(seconds / 3600);
+  seconds -= hours * 3600;
+  const minutes = Math.floor(seconds / 60);
+  seconds -= minutes * 60;
+
+  const time = `${hours ? `${hours}H` : ''}${minutes ? `${minutes}M` : ''}${seconds ? `${seconds}S` : ''}`;
+  if (!days && !time) {
+    return 'PT0S';
+  }
+  return `${sign}P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+}
+
+/**
+ * A single content line, e.g. DTSTART;TZID=Europe/Berlin:20250310T090000
+ */
+export interface ICalProperty {
+  name: string;                       // Upper-cased property name
+  group?: string;                     // Optional group prefix (vCard "item1.EMAIL")
+  params: Record<string, string[]>;   // Upper-cased parameter names, unquoted values
+  value: string;                      // Raw value, still escaped for TEXT properties
+}
+
+/**
+ * A BEGIN/END block such as VCALENDAR, VEVENT, VALARM or VTIMEZONE
+ */
+export interface ICalComponent {
+  name: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Unfold content lines: a CRLF followed by a space or tab continues the previous line
+ */
+export function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim().length > 0);
+}
+
+/**
+ * Parse one unfolded content line into name, parameters and value.
+ * Handles quoted parameter values that contain ":", ";" or ",".
+ */
+export function parseContentLine(line: string): ICalProperty | undefined {
+  let index = 0;
+  const readUntil = (stops: string): string => {
+    const begin = index;
+    while (index < line.length && !stops.includes(line[index])) index++;
+    return line.substring(begin, index);
+  };
+
+  const fullName = readUntil(';:');
+  if (!fullName || index >= line.length) {
+    return undefined;
+  }
+
+  const dot = fullName.indexOf('.');
+  const property: ICalProperty = {
+    name: (dot >= 0 ? fullName.substring(dot + 1) : fullName).toUpperCase(),
+    params: {},
+    value: '',
+  };
+  if (dot >= 0) {
+    property.group = fullName.substring(0, dot);
+  }
+
+  while (line[index] === ';') {
+    index++;
+    const paramName = readUntil('=;:').toUpperCase();
+    const values: string[] = [];
+
+    if (line[index] === '=') {
+      do {
+        index++;
+        if (line[index] === '"') {
+          index++;
+          values.push(decodeParamValue(readUntil('"')));
+          index++;
+        } else {
+          values.push(decodeParamValue(readUntil(',;:')));
+        }
+      } while (line[index] === ',');
+    }
+
+    if (paramName) {
+      property.params[paramName] = [...(property.params[paramName] || []), ...values];
+    }
+  }
+
+  if (line[index] !== ':') {
+    return undefined;
+  }
+
+  property.value = line.substring(index + 1);
+  return property;
+}
+
+/**
+ * Parse iCalendar text into its top-level components (normally a single VCALENDAR)
+ */
+export function parseICalendarData(text: string): ICalComponent[] {
+  const roots: ICalComponent[] = [];
+  const stack: ICalComponent[] = [];
+
+  for (const line of unfoldLines(text)) {
+    const property = parseContentLine(line);
+    if (!property) {
+      console.warn('Skipping malformed iCalendar line:', line);
+      continue;
+    }
+
+    if (property.name === 'BEGIN') {
+      const component: ICalComponent = { name: property.value.trim().toUpperCase(), properties: [], components: [] };
+      const parent = stack[stack.length - 1];
+      (parent ? parent.components : roots).push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      stack.pop();
+    } else {
+      const current = stack[stack.length - 1];
+      if (current) {
+        current.properties.push(property);
+      }
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Serialize a component (and its children) with CRLF line endings and folding
+ */
+export function serializeICalComponent(component: ICalComponent): string {
+  const lines = [
+    `BEGIN:${component.name}`,
+    ...component.properties.map(serializeContentLine),
+    ...component.components.map(child => serializeICalComponent(child).replace(/\r\n$/, '')),
+    `END:${component.name}`,
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Serialize a single property as a folded content line (without trailing CRLF)
+ */
+export function serializeContentLine(property: ICalProperty): string {
+  const params = Object.entries(property.params)
+    .map(([name, values]) => `;${name}=${values.map(encodeParamValue).join(',')}`)
+    .join('');
+  const name = property.group ? `${property.group}.${property.name}` : property.name;
+  return foldLine(`${name}${params}:${property.value}`);
+}
+
+/**
+ * Fold a content line at 75 octets without splitting multi-byte characters
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines)
+ */
+export function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Unescape a TEXT value
+ */
+export function unescapeICalText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+/**
+ * Split a multi-valued TEXT value on unescaped commas (e.g. CATEGORIES)
+ */
+export function splitICalList(value: string, separator: string = ','): string[] {
+  const items: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && i + 1 < value.length) {
+      current += char + value[++i];
+    } else if (char === separator) {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+
+  return items;
+}
+
+/**
+ * First property with the given name, if any
+ */
+export function getICalProperty(component: ICalComponent, name: string): ICalProperty | undefined {
+  return component.properties.find(property => property.name === name);
+}
+
+/**
+ * All properties with the given name
+ */
+export function getICalProperties(component: ICalComponent, name: string): ICalProperty[] {
+  return component.properties.filter(property => property.name === name);
+}
+
+/**
+ * Replace all properties with the given name by a single new one, or remove
+ * them when no value is given
+ */
+export function setICalProperty(
+  component: ICalComponent,
+  name: string,
+  value?: string,
+  params: Record<string, string[]> = {}
+): void {
+  component.properties = component.properties.filter(property => property.name !== name);
+  if (value) {
+    component.properties.push({ name, params, value });
+  }
+}
+
+/**
+ * First value of a property parameter, if present
+ */
+export function getICalParam(property: ICalProperty, name: string): string | undefined {
+  return property.params[name]?.[0];
+}
+
+/**
+ * Find all descendant components with the given name
+ */
+export function findICalComponents(components: ICalComponent[], name: string): ICalComponent[] {
+  return components.flatMap(component => [
+    ...(component.name === name ? [component] : []),
+    ...findICalComponents(component.components, name),
+  ]);
+}
+
+/**
+ * Decode RFC 6868 caret escapes in parameter values
+ */
+function decodeParamValue(value: string): string {
+  return value.replace(/\^(\^|n|')/g, (_, char: string) =>
+    char === 'n' ? '\n' : char === "'" ? '"' : '^'
+  );
+}
+
+/**
+ * Quote parameter values that contain special characters, encoding per RFC 6868
+ */
+function encodeParamValue(value: string): string {
+  const encoded = value.replace(/\^/g, '^^').replace(/\r?\n/g, '^n').replace(/"/g, "^'");
+  return /[:;,]/.test(encoded) ? `"${encoded}"` : encoded;
+}
@@ -0,0 +1,461 @@
+import { parseICalDateTime } from './icalendar.js';
+
+/**
+ * Recurrence rule (RRULE) parsing and expansion following RFC 5545 section 3.3.10.
+ *
+ * All dates handled here are "wall-clock" dates: the local date and time of the
+ * event stored in the UTC fields of a Date object. This keeps the calendar
+ * arithmetic (add a month, find the 2nd Tuesday) independent of timezones.
+ */
+
+export type RecurrenceFrequency =
+  | 'SECONDLY'
+  | 'MINUTELY'
+  | 'HOURLY'
+  | 'DAILY'
+  | 'WEEKLY'
+  | 'MONTHLY'
+  | 'YEARLY';
+
+export interface WeekdayRule {
+  weekday: number;   // 0 = Sunday ... 6 = Saturday
+  ordinal?: number;  // e.g. 2 for "2nd", -1 for "last"
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  untilIsUtc?: boolean;    // UNTIL given in UTC ("Z") rather than local time
+  bySecond?: number[];
+  byMinute?: number[];
+  byHour?: number[];
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  byYearDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  wkst: number;
+}
+
+export interface RecurrenceExpansionOptions {
+  start: Date;               // DTSTART (wall-clock)
+  rule?: RecurrenceRule;     // RRULE
+  rdates?: Date[];           // Additional RDATE instances (wall-clock)
+  exdates?: Date[];          // EXDATE instances to remove (instants)
+  rangeStart: Date;          // Only return occurrences overlapping this range (instants)
+  rangeEnd: Date;
+  duration?: number;         // Occurrence duration in milliseconds
+  maxOccurrences?: number;   // Safety limit on returned occurrences
+  toInstant?: (wall: Date) => Date;  // Wall-clock to instant conversion, identity by default
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = [
+  'SECONDLY', 'MINUTELY', 'HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'
+];
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ITERATIONS = 50000;
+export const DEFAULT_MAX_OCCURRENCES = 1000;
+
+/**
+ * Parse an RRULE value such as "FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20251231T000000Z"
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule {
+  const rule: RecurrenceRule = { freq: 'DAILY', interval: 1, wkst: 1 };
+  let hasFrequency = false;
+
+  for (const part of value.split(';')) {
+    const [rawKey, rawValue = ''] = part.split('=');
+    const key = rawKey.trim().toUpperCase();
+    const val = rawValue.trim().toUpperCase();
+    if (!key) continue;
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(val as RecurrenceFrequency)) {
+          throw new Error(`Unsupported RRULE frequency: ${val}`);
+        }
+        rule.freq = val as RecurrenceFrequency;
+        hasFrequency = true;
+        break;
+      case 'INTERVAL':
+        rule.interval = Math.max(1, parseInt(val, 10) || 1);
+        break;
+      case 'COUNT':
+        rule.count = parseInt(val, 10);
+        break;
+      case 'UNTIL':
+        rule.until = parseICalDateTime(val);
+        rule.untilIsUtc = val.endsWith('Z');
+        break;
+      case 'BYSECOND':
+        rule.bySecond = parseNumberList(val);
+        break;
+      case 'BYMINUTE':
+        rule.byMinute = parseNumberList(val);
+        break;
+      case 'BYHOUR':
+        rule.byHour = parseNumberList(val);
+        break;
+      case 'BYDAY':
+        rule.byDay = val.split(',').map(parseWeekdayRule);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseNumberList(val);
+        break;
+      case 'BYYEARDAY':
+        rule.byYearDay = parseNumberList(val);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseNumberList(val);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseNumberList(val);
+        break;
+      case 'WKST':
+        rule.wkst = Math.max(0, WEEKDAYS.indexOf(val));
+        break;
+      default:
+        console.warn(`Ignoring unsupported RRULE part: ${key}`);
+    }
+  }
+
+  if (!hasFrequency) {
+    throw new Error(`RRULE is missing FREQ: ${value}`);
+  }
+
+  return rule;
+}
+
+/**
+ * Expand DTSTART/RRULE/RDATE/EXDATE into the wall-clock start dates of the
+ * occurrences that overlap the requested range, in chronological order.
+ */
+export function expandRecurrence(options: RecurrenceExpansionOptions): Date[] {
+  const { start, rule, rangeStart, rangeEnd } = options;
+  const duration = options.duration ?? 0;
+  const maxOccurrences = options.maxOccurrences ?? DEFAULT_MAX_OCCURRENCES;
+  const toInstant = options.toInstant || ((wall: Date) => wall);
+  const excluded = new Set((options.exdates || []).map(date => date.getTime()));
+  const occurrences = new Map<number, Date>();
+
+  const overlapsRange = (instant: Date): boolean => {
+    if (instant >= rangeEnd) return false;
+    return duration > 0
+      ? instant.getTime() + duration > rangeStart.getTime()
+      : instant >= rangeStart;
+  };
+
+  const addOccurrence = (occurrence: Date) => {
+    const instant = toInstant(occurrence);
+    if (!excluded.has(instant.getTime()) && overlapsRange(instant)) {
+      occurrences.set(occurrence.getTime(), occurrence);
+    }
+  };
+
+  if (rule) {
+    // Wall-clock and UTC differ by less than a day; the margin keeps
+    // occurrences that start before the range but overlap it
+    const skipBefore = new Date(rangeStart.getTime() - duration - DAY_MS);
+    for (const occurrence of iterateRule(start, rule, toInstant, skipBefore)) {
+      if (toInstant(occurrence) >= rangeEnd || occurrences.size >= maxOccurrences) break;
+      addOccurrence(occurrence);
+    }
+  } else {
+    addOccurrence(start);
+  }
+
+  for (const rdate of options.rdates || []) {
+    addOccurrence(rdate);
+  }
+
+  return Array.from(occurrences.values())
+    .sort((a, b) => a.getTime() - b.getTime())
+    .slice(0, maxOccurrences);
+}
+
+/**
+ * Yield every instance of a rule in chronological order, starting with DTSTART.
+ * Without COUNT, periods ending before `skipBefore` are skipped rather than
+ * iterated, so long-running HOURLY or MINUTELY series still reach a late range.
+ */
+function* iterateRule(
+  start: Date,
+  rule: RecurrenceRule,
+  toInstant: (wall: Date) => Date,
+  skipBefore?: Date
+): Generator<Date> {
+  let emitted = 0;
+  const limitReached = () => rule.count !== undefined && emitted >= rule.count;
+
+  // DTSTART is always the first instance of the recurrence set
+  yield start;
+  emitted++;
+
+  // COUNT needs every instance from DTSTART on to be counted
+  const firstPeriod = skipBefore && rule.count === undefined ? periodsBefore(start, rule, skipBefore) : 0;
+
+  for (let period = firstPeriod; period < firstPeriod + MAX_ITERATIONS; period++) {
+    if (limitReached()) return;
+
+    for (const candidate of expandPeriod(start, rule, period)) {
+      if (candidate <= start) continue;
+      if (rule.until && (rule.untilIsUtc ? toInstant(candidate) : candidate) > rule.until) return;
+      if (limitReached()) return;
+      yield candidate;
+      emitted++;
+    }
+  }
+
+  console.warn('Recurrence expansion stopped after reaching the iteration limit');
+}
+
+/**
+ * Number of whole periods of the rule that lie before `date`, less one so the
+ * period containing it is never skipped
+ */
+function periodsBefore(start: Date, rule: RecurrenceRule, date: Date): number {
+  let units: number;
+  switch (rule.freq) {
+    case 'YEARLY':
+      units = date.getUTCFullYear() - start.getUTCFullYear();
+      break;
+    case 'MONTHLY':
+      units = (date.getUTCFullYear() - start.getUTCFullYear()) * 12 + date.getUTCMonth() - start.getUTCMonth();
+      break;
+    default: {
+      const unitMs = { WEEKLY: 7 * DAY_MS, DAILY: DAY_MS, HOURLY: 3600000, MINUTELY: 60000, SECONDLY: 1000 }[rule.freq];
+      units = Math.floor((date.getTime() - start.getTime()) / unitMs);
+    }
+  }
+  return Math.max(0, Math.floor(units / rule.interval) - 1);
+}
+
+/**
+ * All candidate instances in the given period of the rule, where period 0 is
+ * the year/month/week/day containing DTSTART and each following period is
+ * INTERVAL frequency units later
+ */
+function expandPeriod(start: Date, rule: RecurrenceRule, period: number): Date[] {
+  const step = period * rule.interval;
+  let days: Date[];
+
+  switch (rule.freq) {
+    case 'YEARLY':
+      days = yearlyDays(start, rule, start.getUTCFullYear() + step);
+      break;
+    case 'MONTHLY': {
+      const monthIndex = start.getUTCMonth() + step;
+      const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+      days = monthlyDays(start, rule, year, monthIndex % 12)
+        .filter(day => matchesMonth(day, rule));
+      break;
+    }
+    case 'WEEKLY':
+      days = weeklyDays(start, rule, step);
+      break;
+    case 'DAILY': {
+      const day = addDays(startOfDay(start), step);
+      days = matchesDayFilters(day, rule) ? [day] : [];
+      break;
+    }
+    default: {
+      const unit = rule.freq === 'HOURLY' ? 3600000 : rule.freq === 'MINUTELY' ? 60000 : 1000;
+      const instance = new Date(start.getTime() + step * unit);
+      return matchesDayFilters(startOfDay(instance), rule) && matchesTimeFilters(instance, rule)
+        ? [instance]
+        : [];
+    }
+  }
+
+  const instances = days
+    .flatMap(day => withTimes(day, start, rule))
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  return applySetPositions(instances, rule.bySetPos);
+}
+
+function yearlyDays(start: Date, rule: RecurrenceRule, year: number): Date[] {
+  if (rule.byMonth) {
+    return rule.byMonth.flatMap(month => monthlyDays(start, rule, year, month - 1));
+  }
+
+  if (rule.byYearDay) {
+    const daysInYear = isLeapYear(year) ? 366 : 365;
+    return rule.byYearDay
+      .map(yearDay => (yearDay > 0 ? yearDay : daysInYear + yearDay + 1))
+      .filter(yearDay => yearDay >= 1 && yearDay <= daysInYear)
+      .map(yearDay => new Date(Date.UTC(year, 0, yearDay)))
+      .filter(day => matchesDayFilters(day, rule));
+  }
+
+  if (rule.byMonthDay) {
+    return Array.from({ length: 12 }, (_, month) => monthlyDays(start, rule, year, month)).flat();
+  }
+
+  if (rule.byDay) {
+    const yearDays = daysBetween(new Date(Date.UTC(year, 0, 1)), new Date(Date.UTC(year + 1, 0, 1)));
+    return selectWeekdays(yearDays, rule.byDay);
+  }
+
+  const day = new Date(Date.UTC(year, start.getUTCMonth(), start.getUTCDate()));
+  // Skip invalid dates such as February 29th in non-leap years
+  return day.getUTCMonth() === start.getUTCMonth() ? [day] : [];
+}
+
+function monthlyDays(start: Date, rule: RecurrenceRule, year: number, month: number): Date[] {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  let days: Date[] | undefined;
+
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay
+      .map(monthDay => (monthDay > 0 ? monthDay : daysInMonth + monthDay + 1))
+      .filter(monthDay => monthDay >= 1 && monthDay <= daysInMonth)
+      .map(monthDay => new Date(Date.UTC(year, month, monthDay)));
+  }
+
+  if (rule.byDay) {
+    const monthDays = daysBetween(new Date(Date.UTC(year, month, 1)), new Date(Date.UTC(year, month + 1, 1)));
+    const weekdays = selectWeekdays(monthDays, rule.byDay);
+    days = days
+      ? days.filter(day => weekdays.some(weekday => weekday.getTime() === day.getTime()))
+      : weekdays;
+  }
+
+  if (!days) {
+    const monthDay = start.getUTCDate();
+    days = monthDay <= daysInMonth ? [new Date(Date.UTC(year, month, monthDay))] : [];
+  }
+
+  return days;
+}
+
+function weeklyDays(start: Date, rule: RecurrenceRule, step: number): Date[] {
+  const startDay = startOfDay(start);
+  const offset = (startDay.getUTCDay() - rule.wkst + 7) % 7;
+  const weekStart = addDays(startDay, step * 7 - offset);
+  const weekdays = rule.byDay
+    ? rule.byDay.map(byDay => byDay.weekday)
+    : [startDay.getUTCDay()];
+
+  return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i))
+    .filter(day => weekdays.includes(day.getUTCDay()))
+    .filter(day => matchesMonth(day, rule));
+}
+
+/**
+ * Pick days matching BYDAY entries within a span (a month or a year),
+ * honouring ordinals such as "2TU" or "-1FR"
+ */
+function selectWeekdays(spanDays: Date[], byDay: WeekdayRule[]): Date[] {
+  const selected = new Map<number, Date>();
+
+  for (const { weekday, ordinal } of byDay) {
+    const matching = spanDays.filter(day => day.getUTCDay() === weekday);
+    if (ordinal === undefined) {
+      matching.forEach(day => selected.set(day.getTime(), day));
+    } else {
+      const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      if (day) selected.set(day.getTime(), day);
+    }
+  }
+
+  return Array.from(selected.values()).sort((a, b) => a.getTime() - b.getTime());
+}
+
+function withTimes(day: Date, start: Date, rule: RecurrenceRule): Date[] {
+  const hours = rule.byHour || [start.getUTCHours()];
+  const minutes = rule.byMinute || [start.getUTCMinutes()];
+  const seconds = rule.bySecond || [start.getUTCSeconds()];
+  const instances: Date[] = [];
+
+  for (const hour of hours) {
+    for (const minute of minutes) {
+      for (const second of seconds) {
+        instances.push(new Date(Date.UTC(
+          day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hour, minute, second
+        )));
+      }
+    }
+  }
+
+  return instances;
+}
+
+function applySetPositions(instances: Date[], bySetPos?: number[]): Date[] {
+  if (!bySetPos) return instances;
+
+  return bySetPos
+    .map(pos => (pos > 0 ? instances[pos - 1] : instances[instances.length + pos]))
+    .filter((instance): instance is Date => instance !== undefined)
+    .sort((a, b) => a.getTime() - b.getTime());
+}
+
+function matchesMonth(day: Date, rule: RecurrenceRule): boolean {
+  return !rule.byMonth || rule.byMonth.includes(day.getUTCMonth() + 1);
+}
+
+function matchesDayFilters(day: Date, rule: RecurrenceRule): boolean {
+  if (!matchesMonth(day, rule)) return false;
+
+  if (rule.byMonthDay) {
+    const daysInMonth = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+    const matches = rule.byMonthDay.some(monthDay =>
+      (monthDay > 0 ? monthDay : daysInMonth + monthDay + 1) === day.getUTCDate()
+    );
+    if (!matches) return false;
+  }
+
+  if (rule.byDay && !rule.byDay.some(byDay => byDay.weekday === day.getUTCDay())) {
+    return false;
+  }
+
+  return true;
+}
+
+function matchesTimeFilters(instance: Date, rule: RecurrenceRule): boolean {
+  return (!rule.byHour || rule.byHour.includes(instance.getUTCHours())) &&
+    (!rule.byMinute || rule.byMinute.includes(instance.getUTCMinutes())) &&
+    (!rule.bySecond || rule.bySecond.includes(instance.getUTCSeconds()));
+}
+
+function parseNumberList(value: string): number[] {
+  return value
+    .split(',')
+    .map(item => parseInt(item, 10))
+    .filter(item => !isNaN(item));
+}
+
+function parseWeekdayRule(value: string): WeekdayRule {
+  const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid BYDAY value: ${value}`);
+  }
+
+  return {
+    weekday: WEEKDAYS.indexOf(match[2]),
+    ordinal: match[1] ? parseInt(match[1], 10) : undefined,
+  };
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function daysBetween(from: Date, to: Date): Date[] {
+  const days: Date[] = [];
+  for (let day = from; day < to; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
@@ -2,6 +2,7 @@ import { FileIndexer } from './file-indexer.js';
 import { ContentExtractor, ContentAnalyzer } from './content-extractor.js';
 import { WebDAVClient } from '../client/webdav.js';
 import { getClient } from './client-manager.js';
+import { resolveDateRangeFilter } from './date-expression.js';
 import {
   SearchOptions,
   SearchResult,
@@ -467,6 +468,8 @@ export class SearchEngine {
    * Apply pre-filters (file type, size, date)
    */
   private applyPreFilters(files: FileMetadata[], options: SearchOptions): FileMetadata[] {
+    const dateRange = resolveDateRangeFilter(options.dateRange);
+
     return files.filter(file => {
       // File type filter
       if (options.fileTypes && options.fileTypes.length > 0) {
@@ -486,11 +489,11 @@ export class SearchEngine {
       }
 
       // Date range filter
-      if (options.dateRange) {
-        if (options.dateRange.from && file.lastModified < options.dateRange.from) {
+      if (dateRange) {
+        if (dateRange.from && file.lastModified < dateRange.from) {
           return false;
         }
-        if (options.dateRange.to && file.lastModified > options.dateRange.to) {
+        if (dateRange.to && file.lastModified > dateRange.to) {
           return false;
         }
       }
@@ -632,7 +635,8 @@ export class SearchEngine {
       searchIn: options.searchIn.sort(),
       fileTypes: options.fileTypes?.sort(),
       basePath: options.basePath,
-      caseSensitive: options.caseSensitive
+      caseSensitive: options.caseSensitive,
+      dateRange: options.dateRange
     });
   }
 
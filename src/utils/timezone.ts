@@ -0,0 +1,336 @@
+import {
+  ICalComponent,
+  ICalProperty,
+  formatICalDateTimeUTC,
+  getICalProperties,
+  getICalProperty,
+  parseICalDateTime,
+} from './icalendar.js';
+import { expandRecurrence, parseRecurrenceRule } from './recurrence.js';
+
+/**
+ * Timezone helpers built on the IANA database shipped with Node's Intl API.
+ *
+ * As in the recurrence helpers, a "wall-clock" Date holds a local date and
+ * time in its UTC fields, while an "instant" is a real point in time.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+interface TimeZoneTransition {
+  instant: Date;
+  offsetFrom: number;
+  offsetTo: number;
+}
+
+/**
+ * Check whether a string is an IANA timezone known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Map a TZID to an IANA timezone name, also accepting vendor-prefixed ids
+ * such as "/mozilla.org/20050126_1/Europe/Berlin". Returns undefined otherwise.
+ */
+export function normalizeTimeZoneId(tzid: string): string | undefined {
+  if (isValidTimeZone(tzid)) {
+    return tzid;
+  }
+
+  const match = /([A-Za-z_]+\/[A-Za-z0-9_+\-]+(?:\/[A-Za-z0-9_+\-]+)?)$/.exec(tzid);
+  return match && isValidTimeZone(match[1]) ? match[1] : undefined;
+}
+
+/**
+ * UTC offset of a timezone at a given instant, in milliseconds
+ */
+export function getTimeZoneOffset(timeZone: string, instant: Date): number {
+  const parts = getFormatter(timeZone).formatToParts(instant);
+  const field = (type: string) => Number(parts.find(part => part.type === type)?.value || 0);
+
+  const wallTime = Date.UTC(
+    field('year'), field('month') - 1, field('day'),
+    field('hour'), field('minute'), field('second')
+  );
+  const instantSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+
+  return wallTime - instantSeconds;
+}
+
+/**
+ * Convert a wall-clock time in a timezone to an instant.
+ * Times skipped by a DST change move forward; repeated times use the first occurrence.
+ */
+export function zonedTimeToUtc(wall: Date, timeZone: string): Date {
+  // The offsets in effect around the wall time give at most two candidate instants
+  const offsetBefore = getTimeZoneOffset(timeZone, new Date(wall.getTime() - DAY_MS));
+  const offsetAfter = getTimeZoneOffset(timeZone, new Date(wall.getTime() + DAY_MS));
+
+  const candidates = [offsetBefore, offsetAfter]
+    .map(offset => new Date(wall.getTime() - offset))
+    .filter(instant => utcToZonedTime(instant, timeZone).getTime() === wall.getTime())
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  // No candidate means the wall time falls into a DST gap: shift it forward
+  return candidates[0] || new Date(wall.getTime() - offsetBefore);
+}
+
+/**
+ * Convert an instant to the wall-clock time of a timezone
+ */
+export function utcToZonedTime(instant: Date, timeZone: string): Date {
+  return new Date(instant.getTime() + getTimeZoneOffset(timeZone, instant));
+}
+
+/**
+ * UTC offset defined by a VTIMEZONE component at a wall-clock time, in milliseconds.
+ * Used for non-IANA TZIDs (e.g. Outlook's "W. Europe Standard Time").
+ */
+export function getVTimezoneOffset(vtimezone: ICalComponent, wall: Date): number {
+  let latestOnset: Date | undefined;
+  let latestOffset: number | undefined;
+  let earliestOnset: Date | undefined;
+  let earliestOffset = 0;
+
+  for (const observance of vtimezone.components) {
+    const dtstart = getICalProperty(observance, 'DTSTART');
+    const offsetTo = parseUtcOffset(getICalProperty(observance, 'TZOFFSETTO')?.value);
+    const offsetFrom = parseUtcOffset(getICalProperty(observance, 'TZOFFSETFROM')?.value);
+    const start = dtstart ? parseICalDateTime(dtstart.value) : undefined;
+    if (!start || offsetTo === undefined) continue;
+
+    if (!earliestOnset || start < earliestOnset) {
+      earliestOnset = start;
+      earliestOffset = offsetFrom ?? offsetTo;
+    }
+    if (start > wall) continue;
+
+    const rrule = getICalProperty(observance, 'RRULE');
+    const rdates = getICalProperties(observance, 'RDATE')
+      .flatMap(rdate => rdate.value.split(','))
+      .map(value => parseICalDateTime(value))
+      .filter((date): date is Date => date !== undefined);
+
+    const onsets = expandRecurrence({
+      start,
+      rule: rrule ? parseRecurrenceRule(rrule.value) : undefined,
+      rdates,
+      rangeStart: start,
+      rangeEnd: new Date(wall.getTime() + 1),
+    });
+    const onset = onsets[onsets.length - 1];
+
+    if (onset && (!latestOnset || onset > latestOnset)) {
+      latestOnset = onset;
+      latestOffset = offsetTo;
+    }
+  }
+
+  return latestOffset ?? earliestOffset;
+}
+
+/**
+ * Build a VTIMEZONE component for an IANA timezone, describing the DST rules
+ * in effect around the reference date
+ */
+export function buildVTimezone(timeZone: string, reference: Date = new Date()): ICalComponent {
+  const transitions = findTransitions(timeZone, reference.getUTCFullYear());
+  const observances: ICalComponent[] = [];
+
+  if (transitions.length === 0) {
+    const offset = getTimeZoneOffset(timeZone, reference);
+    observances.push(buildObservance(
+      'STANDARD', new Date(Date.UTC(1970, 0, 1)), offset, offset, getTimeZoneName(timeZone, reference)
+    ));
+  } else {
+    // Two transitions per year means a regular DST pattern that can be expressed as yearly rules
+    const regular = transitions.length === 2;
+
+    for (const transition of transitions) {
+      const wallStart = new Date(transition.instant.getTime() + transition.offsetFrom);
+      const type = transition.offsetTo > transition.offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+      const name = getTimeZoneName(timeZone, transition.instant);
+
+      if (regular) {
+        const byDay = getWeekdayOrdinal(wallStart);
+        const firstOnset = nthWeekdayOfMonth(1970, wallStart.getUTCMonth(), wallStart.getUTCDay(), byDay.ordinal);
+        firstOnset.setUTCHours(wallStart.getUTCHours(), wallStart.getUTCMinutes());
+
+        const observance = buildObservance(type, firstOnset, transition.offsetFrom, transition.offsetTo, name);
+        observance.properties.push(property(
+          'RRULE',
+          `FREQ=YEARLY;BYMONTH=${wallStart.getUTCMonth() + 1};BYDAY=${byDay.ordinal}${WEEKDAYS[wallStart.getUTCDay()]}`
+        ));
+        observances.push(observance);
+      } else {
+        observances.push(buildObservance(type, wallStart, transition.offsetFrom, transition.offsetTo, name));
+      }
+    }
+  }
+
+  return {
+    name: 'VTIMEZONE',
+    properties: [property('TZID', timeZone)],
+    components: observances,
+  };
+}
+
+/**
+ * Parse a local date/time without offset ("2025-03-10T09:00", "20250310T090000")
+ * into a wall-clock Date. Returns undefined for values carrying "Z" or an offset.
+ */
+export function parseWallClock(value: string): Date | undefined {
+  const match = /^(\d{4})-?(\d{2})-?(\d{2})(?:[T ](\d{2}):?(\d{2})(?::?(\d{2})(?:\.\d+)?)?)?$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  return new Date(Date.UTC(
+    Number(year), Number(month) - 1, Number(day),
+    Number(hours || 0), Number(minutes || 0), Number(seconds || 0)
+  ));
+}
+
+/**
+ * Check whether a date string is date-only ("2025-03-10" or "20250310")
+ */
+export function isDateOnly(value: string): boolean {
+  return /^\d{4}-?\d{2}-?\d{2}$/.test(value.trim());
+}
+
+/**
+ * Format a UTC offset in milliseconds as +HHMM / -HHMM
+ */
+export function formatUtcOffset(offset: number): string {
+  const sign = offset < 0 ? '-' : '+';
+  const totalMinutes = Math.abs(Math.round(offset / MINUTE_MS));
+  const hours = String(Math.floor(totalMinutes / 60)).padStart(2, '0');
+  const minutes = String(totalMinutes % 60).padStart(2, '0');
+  return `${sign}${hours}${minutes}`;
+}
+
+/**
+ * Parse a UTC offset (+HHMM, -HHMMSS) into milliseconds
+ */
+export function parseUtcOffset(value?: string): number | undefined {
+  const match = value ? /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value.trim()) : null;
+  if (!match) {
+    return undefined;
+  }
+
+  const [, sign, hours, minutes, seconds] = match;
+  const offset = (Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds || 0)) * 1000;
+  return sign === '-' ? -offset : offset;
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getTimeZoneName(timeZone: string, instant: Date): string | undefined {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(instant);
+  return parts.find(part => part.type === 'timeZoneName')?.value;
+}
+
+/**
+ * Find the offset changes of a timezone within a calendar year, to the minute
+ */
+function findTransitions(timeZone: string, year: number): TimeZoneTransition[] {
+  const transitions: TimeZoneTransition[] = [];
+  const yearEnd = Date.UTC(year + 1, 0, 1);
+  let previous = Date.UTC(year, 0, 1);
+  let previousOffset = getTimeZoneOffset(timeZone, new Date(previous));
+
+  for (let current = previous + DAY_MS; current <= yearEnd; current += DAY_MS) {
+    const currentOffset = getTimeZoneOffset(timeZone, new Date(current));
+
+    if (currentOffset !== previousOffset) {
+      // Binary search the exact minute of the change
+      let low = previous;
+      let high = current;
+      while (high - low > MINUTE_MS) {
+        const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+        if (getTimeZoneOffset(timeZone, new Date(middle)) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({ instant: new Date(high), offsetFrom: previousOffset, offsetTo: currentOffset });
+    }
+
+    previous = current;
+    previousOffset = currentOffset;
+  }
+
+  return transitions;
+}
+
+function buildObservance(
+  type: 'STANDARD' | 'DAYLIGHT',
+  wallStart: Date,
+  offsetFrom: number,
+  offsetTo: number,
+  name?: string
+): ICalComponent {
+  const properties = [
+    property('DTSTART', formatICalDateTimeUTC(wallStart).slice(0, -1)),
+    property('TZOFFSETFROM', formatUtcOffset(offsetFrom)),
+    property('TZOFFSETTO', formatUtcOffset(offsetTo)),
+  ];
+  if (name) {
+    properties.push(property('TZNAME', name));
+  }
+
+  return { name: type, properties, components: [] };
+}
+
+function property(name: string, value: string): ICalProperty {
+  return { name, params: {}, value };
+}
+
+/**
+ * Describe a day as "nth weekday of the month", using -1 for the last one
+ */
+function getWeekdayOrdinal(day: Date): { ordinal: number } {
+  const daysInMonth = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+  const dayOfMonth = day.getUTCDate();
+  return { ordinal: dayOfMonth + 7 > daysInMonth ? -1 : Math.ceil(dayOfMonth / 7) };
+}
+
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, ordinal: number): Date {
+  if (ordinal > 0) {
+    const first = new Date(Date.UTC(year, month, 1));
+    const offset = (weekday - first.getUTCDay() + 7) % 7;
+    return new Date(Date.UTC(year, month, 1 + offset + (ordinal - 1) * 7));
+  }
+
+  const last = new Date(Date.UTC(year, month + 1, 0));
+  const offset = (last.getUTCDay() - weekday + 7) % 7;
+  return new Date(Date.UTC(year, month, last.getUTCDate() - offset));
+}
@@ -0,0 +1,285 @@
+import {
+  escapeICalText,
+  foldLine,
+  ICalProperty,
+  parseContentLine,
+  serializeContentLine,
+  splitICalList,
+  unescapeICalText,
+} from './icalendar.js';
+
+/**
+ * Helpers for working with vCard (RFC 6350, RFC 2426 and vCard 2.1) data.
+ * vCard shares the content line syntax of iCalendar, so lines are parsed with
+ * the iCalendar helpers; what differs is handled here: quoted-printable values
+ * and bare TYPE parameters from vCard 2.1, structured values (N, ADR, ORG) and
+ * TYPE/PREF handling.
+ */
+
+/**
+ * A vCard property. `raw` holds the original unfolded line so that
+ * properties nobody changed are written back byte for byte.
+ */
+export interface VCardProperty extends ICalProperty {
+  raw?: string;
+}
+
+export interface VCard {
+  properties: VCardProperty[];
+}
+
+/**
+ * Parameter names that vCard 2.1 allows without "TYPE=", e.g. TEL;WORK;VOICE
+ */
+const BARE_TYPE_PARAMS = new Set([
+  'HOME', 'WORK', 'PREF', 'VOICE', 'FAX', 'MSG', 'CELL', 'PAGER', 'BBS', 'MODEM', 'CAR', 'ISDN', 'VIDEO',
+  'INTERNET', 'X400', 'DOM', 'INTL', 'POSTAL', 'PARCEL', 'TEXT', 'IPHONE', 'MAIN',
+]);
+
+/**
+ * Unfold vCard text into logical lines. Besides regular folding this joins
+ * vCard 2.1 quoted-printable soft line breaks (a line ending in "=").
+ */
+export function unfoldVCardLines(text: string): string[] {
+  const lines: string[] = [];
+
+  for (const line of text.replace(/\r\n|\r/g, '\n').split('\n')) {
+    const previous = lines[lines.length - 1];
+    if (previous !== undefined && /^[ \t]/.test(line)) {
+      lines[lines.length - 1] = previous + line.substring(1);
+    } else if (previous !== undefined && /ENCODING=QUOTED-PRINTABLE/i.test(previous) && previous.endsWith('=')) {
+      lines[lines.length - 1] = previous.slice(0, -1) + line;
+    } else {
+      lines.push(line);
+    }
+  }
+
+  return lines.filter(line => line.trim().length > 0);
+}
+
+/**
+ * Parse vCard text into its cards (a .vcf file may hold many)
+ */
+export function parseVCardData(text: string): VCard[] {
+  const cards: VCard[] = [];
+  let current: VCard | undefined;
+  let depth = 0;
+
+  for (const line of unfoldVCardLines(text)) {
+    const property = parseContentLine(line);
+    if (!property) {
+      console.warn('Skipping malformed vCard line:', line);
+      continue;
+    }
+
+    if (property.name === 'BEGIN' && property.value.trim().toUpperCase() === 'VCARD') {
+      if (depth++ === 0) {
+        current = { properties: [] };
+        cards.push(current);
+        continue;
+      }
+    } else if (property.name === 'END' && property.value.trim().toUpperCase() === 'VCARD') {
+      if (--depth === 0) {
+        current = undefined;
+        continue;
+      }
+    }
+
+    if (current) {
+      current.properties.push(normalizeProperty(property, line));
+    }
+  }
+
+  return cards;
+}
+
+/**
+ * Serialize a vCard with CRLF line endings. Unchanged properties are written
+ * from their original line.
+ */
+export function serializeVCard(card: VCard): string {
+  const lines = [
+    'BEGIN:VCARD',
+    ...card.properties.map(property => property.raw !== undefined ? foldLine(property.raw) : serializeContentLine(property)),
+    'END:VCARD',
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * vCard version of a card (2.1, 3.0 or 4.0), 3.0 when missing
+ */
+export function getVCardVersion(card: VCard): string {
+  return getVCardProperty(card, 'VERSION')?.value.trim() || '3.0';
+}
+
+/**
+ * First property with the given name, if any
+ */
+export function getVCardProperty(card: VCard, name: string): VCardProperty | undefined {
+  return card.properties.find(property => property.name === name);
+}
+
+/**
+ * All properties with the given name
+ */
+export function getVCardProperties(card: VCard, name: string): VCardProperty[] {
+  return card.properties.filter(property => property.name === name);
+}
+
+/**
+ * Replace all properties with the given name by new ones (none to remove them).
+ * The first replacement takes the position of the first removed property.
+ */
+export function setVCardProperties(card: VCard, name: string, properties: VCardProperty[]): void {
+  const index = card.properties.findIndex(property => property.name === name);
+  const remaining = card.properties.filter(property => property.name !== name);
+  // Everything before the first match is kept, so its index is still valid
+  remaining.splice(index >= 0 ? index : remaining.length, 0, ...properties);
+  card.properties = remaining;
+}
+
+/**
+ * Replace a text property with a single value, or remove it when the value is empty
+ */
+export function setVCardText(card: VCard, name: string, value?: string, params: Record<string, string[]> = {}): void {
+  setVCardProperties(card, name, value ? [{ name, params, value: escapeICalText(value) }] : []);
+}
+
+/**
+ * Unescaped value of a text property
+ */
+export function getVCardText(property?: VCardProperty): string | undefined {
+  return property ? unescapeICalText(property.value) : undefined;
+}
+
+/**
+ * Split a structured value (N, ADR, ORG) into its components, each a list
+ * of unescaped values
+ */
+export function parseStructuredValue(value: string): string[][] {
+  return splitICalList(value, ';').map(component =>
+    component === '' ? [] : splitICalList(component).map(unescapeICalText)
+  );
+}
+
+/**
+ * Build a structured value from its components
+ */
+export function formatStructuredValue(components: (string | string[] | undefined)[]): string {
+  return components
+    .map(component => [component || []].flat().filter(Boolean).map(escapeICalText).join(','))
+    .join(';');
+}
+
+/**
+ * Lower-cased TYPE values of a property, whether given as TYPE=work,voice,
+ * TYPE=work;TYPE=voice or vCard 2.1 bare parameters. "pref" is not included.
+ */
+export function getVCardTypes(property: VCardProperty): string[] {
+  return (property.params.TYPE || [])
+    .flatMap(value => value.split(','))
+    .map(value => value.trim().toLowerCase())
+    .filter(value => value && value !== 'pref');
+}
+
+/**
+ * Preference of a property: PREF=1..100 (vCard 4), or 1 for TYPE=pref
+ * (vCard 3 and 2.1). Lower is more preferred.
+ */
+export function getVCardPref(property: VCardProperty): number | undefined {
+  const pref = parseInt(property.params.PREF?.[0] || '', 10);
+  if (!isNaN(pref)) {
+    return pref;
+  }
+  const types = (property.params.TYPE || []).flatMap(value => value.split(','));
+  return types.some(value => value.trim().toLowerCase() === 'pref') ? 1 : undefined;
+}
+
+/**
+ * TYPE and PREF parameters for a new property, in the form the card's version expects
+ */
+export function buildTypeParams(types: string[] = [], pref: number | undefined, version: string): Record<string, string[]> {
+  const params: Record<string, string[]> = {};
+  const isV4 = version.startsWith('4');
+  const values = types.map(type => isV4 ? type.toLowerCase() : type.toUpperCase());
+
+  if (pref !== undefined && !isV4) {
+    values.push('pref');
+  }
+  if (values.length > 0) {
+    params.TYPE = values;
+  }
+  if (pref !== undefined && isV4) {
+    params.PREF = [String(pref)];
+  }
+
+  return params;
+}
+
+/**
+ * Apple-style labels: "item1.X-ABLabel:Private" names the properties of group item1
+ */
+export function getVCardLabels(card: VCard): Map<string, string> {
+  const labels = new Map<string, string>();
+  for (const property of getVCardProperties(card, 'X-ABLABEL')) {
+    if (property.group) {
+      labels.set(property.group.toLowerCase(), unescapeICalText(property.value).replace(/^_\$!<(.*)>!\$_$/, '$1'));
+    }
+  }
+  return labels;
+}
+
+/**
+ * Bring vCard 2.1 syntax into the 3.0/4.0 form the rest of the code expects:
+ * bare type parameters become TYPE values, quoted-printable values are decoded.
+ * The original line is kept for writing the property back unchanged.
+ */
+function normalizeProperty(property: ICalProperty, line: string): VCardProperty {
+  const params: Record<string, string[]> = {};
+  const types: string[] = [];
+
+  for (const [name, values] of Object.entries(property.params)) {
+    if (values.length === 0 && BARE_TYPE_PARAMS.has(name)) {
+      types.push(name);
+    } else if (name === 'TYPE') {
+      types.push(...values);
+    } else {
+      params[name] = values;
+    }
+  }
+  if (types.length > 0) {
+    params.TYPE = types;
+  }
+
+  let value = property.value;
+  const encoding = params.ENCODING?.[0]?.toUpperCase();
+  if (encoding === 'QUOTED-PRINTABLE') {
+    value = decodeQuotedPrintable(value, params.CHARSET?.[0]);
+    // Decoded text is now plain, so escape it like any other text value
+    if (!['N', 'ADR', 'ORG'].includes(property.name)) {
+      value = escapeICalText(value);
+    }
+    delete params.ENCODING;
+    delete params.CHARSET;
+  }
+
+  return { ...property, params, value, raw: line };
+}
+
+function decodeQuotedPrintable(value: string, charset: string = 'utf-8'): string {
+  const bytes: number[] = [];
+  const text = value.replace(/=\r?\n/g, '').replace(/=$/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '=' && /^[0-9A-F]{2}$/i.test(text.substring(i + 1, i + 3))) {
+      bytes.push(parseInt(text.substring(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(text[i], 'utf8'));
+    }
+  }
+
+  const encoding = /^(iso-8859-1|latin1|windows-1252)$/i.test(charset) ? 'latin1' : 'utf8';
+  return Buffer.from(bytes).toString(encoding);
+}
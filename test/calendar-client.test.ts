@@ -0,0 +1,179 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CalendarClient } from '../src/client/calendar.js';
+import { multistatus, stubHttp } from './stub-http.js';
+
+const EVENT = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'UID:meeting',
+  'DTSTAMP:20250101T000000Z',
+  'DTSTART:20250301T100000Z',
+  'DTEND:20250301T110000Z',
+  'SUMMARY:Meeting',
+  'SEQUENCE:3',
+  'END:VEVENT',
+  'END:VCALENDAR',
+  '',
+].join('\r\n');
+
+function createClient(): CalendarClient {
+  return new CalendarClient('http://nextcloud.test', 'alice', 'secret');
+}
+
+test('updateEvent writes back with If-Match on the etag it read', async () => {
+  const client = createClient();
+  const requests = stubHttp(client, request => {
+    if (request.method === 'PROPFIND') {
+      return { status: 207, data: multistatus([]) };
+    }
+    return request.method === 'GET'
+      ? { data: EVENT, headers: { etag: '"v1"' } }
+      : { status: 204, headers: { etag: '"v2"' } };
+  });
+
+  const event = await client.updateEvent('personal', 'meeting.ics', { summary: 'Planning' });
+
+  const put = requests.find(request => request.method === 'PUT');
+  assert.equal(put?.headers['If-Match'], '"v1"');
+  assert.match(put?.data ?? '', /SUMMARY:Planning/);
+  assert.equal(event.etag, '"v2"');
+});
+
+test('updateEvent prefers the etag passed by the caller', async () => {
+  const client = createClient();
+  const requests = stubHttp(client, request => {
+    if (request.method === 'PROPFIND') {
+      return { status: 207, data: multistatus([]) };
+    }
+    return request.method === 'GET' ? { data: EVENT, headers: { etag: '"v2"' } } : { status: 204 };
+  });
+
+  await client.updateEvent('personal', 'meeting.ics', { summary: 'Planning', etag: '"v1"' });
+
+  assert.equal(requests.find(request => request.method === 'PUT')?.headers['If-Match'], '"v1"');
+});
+
+test('updateEvent reports a concurrent modification on 412', async () => {
+  const client = createClient();
+  stubHttp(client, request => {
+    if (request.method === 'PROPFIND') {
+      return { status: 207, data: multistatus([]) };
+    }
+    return request.method === 'GET' ? { data: EVENT, headers: { etag: '"v1"' } } : { status: 412 };
+  });
+
+  await assert.rejects(
+    client.updateEvent('personal', 'meeting.ics', { summary: 'Planning' }),
+    { status: 412, message: /modified by another client/ }
+  );
+});
+
+test('updateEvent bumps SEQUENCE only for significant changes', async () => {
+  const client = createClient();
+  const requests = stubHttp(client, request => {
+    if (request.method === 'PROPFIND') {
+      return { status: 207, data: multistatus([]) };
+    }
+    return request.method === 'GET' ? { data: EVENT, headers: { etag: '"v1"' } } : { status: 204 };
+  });
+  const sequenceOfLastPut = () => /SEQUENCE:(\d+)/.exec(requests.filter(request => request.method === 'PUT').pop()?.data ?? '')?.[1];
+
+  await client.updateEvent('personal', 'meeting.ics', { summary: 'Planning' });
+  assert.equal(sequenceOfLastPut(), '3');
+
+  await client.updateEvent('personal', 'meeting.ics', { location: 'Room 1' });
+  assert.equal(sequenceOfLastPut(), '4');
+});
+
+test('createEvent refuses to overwrite an existing object', async () => {
+  const client = createClient();
+  const requests = stubHttp(client, request => {
+    if (request.method === 'PROPFIND') {
+      return { status: 207, data: multistatus([]) };
+    }
+    return { status: 412 };
+  });
+
+  await assert.rejects(
+    client.createEvent('personal', { uid: 'meeting', summary: 'Meeting', dtstart: '2025-03-01T10:00:00Z', dtend: '2025-03-01T11:00:00Z' }),
+    { status: 412, message: /UID meeting already exists/ }
+  );
+  const put = requests.find(request => request.method === 'PUT');
+  assert.equal(put?.headers['If-None-Match'], '*');
+  assert.equal(put?.url, '/remote.php/dav/calendars/alice/personal/meeting.ics');
+});
+
+function eventMember(uid: string, etag: string) {
+  return {
+    href: `/remote.php/dav/calendars/alice/personal/${uid}.ics`,
+    props: `<d:getetag>"${etag}"</d:getetag><cal:calendar-data>${EVENT.replace('UID:meeting', `UID:${uid}`)}</cal:calendar-data>`,
+  };
+}
+
+test('syncCalendar reports added, changed and deleted events between tokens', async () => {
+  const client = createClient();
+  let ctag = 'c1';
+  const requests = stubHttp(client, request => {
+    if (request.method === 'PROPFIND') {
+      return { status: 207, data: multistatus([{ href: '/remote.php/dav/calendars/alice/personal/', props: `<cs:getctag>${ctag}</cs:getctag>` }]) };
+    }
+    return request.data?.includes('<d:sync-token></d:sync-token>')
+      ? { status: 207, data: multistatus([eventMember('a', '1'), eventMember('b', '1')], '<d:sync-token>token-1</d:sync-token>') }
+      : {
+        status: 207,
+        data: multistatus([
+          eventMember('a', '2'),
+          eventMember('c', '1'),
+          { href: '/remote.php/dav/calendars/alice/personal/b.ics', status: 'HTTP/1.1 404 Not Found' },
+        ], '<d:sync-token>token-2</d:sync-token>'),
+      };
+  });
+
+  const initial = await client.syncCalendar('personal');
+  assert.equal(initial.initial, true);
+  assert.equal(initial.syncToken, 'token-1');
+  assert.deepEqual(initial.added.map(event => event.id), ['a.ics', 'b.ics']);
+
+  ctag = 'c2';
+  const changes = await client.syncCalendar('personal', { syncToken: initial.syncToken });
+  assert.equal(changes.initial, false);
+  assert.equal(changes.syncToken, 'token-2');
+  assert.deepEqual(changes.changed.map(event => event.id), ['a.ics']);
+  assert.deepEqual(changes.added.map(event => event.id), ['c.ics']);
+  assert.deepEqual(changes.deleted, ['b.ics']);
+  assert.match(requests.filter(request => request.method === 'REPORT').pop()?.data ?? '', /<d:sync-token>token-1<\/d:sync-token>/);
+});
+
+test('syncCalendar skips the REPORT while the ctag is unchanged', async () => {
+  const client = createClient();
+  const requests = stubHttp(client, request => request.method === 'PROPFIND'
+    ? { status: 207, data: multistatus([{ href: '/remote.php/dav/calendars/alice/personal/', props: '<cs:getctag>c1</cs:getctag>' }]) }
+    : { status: 207, data: multistatus([eventMember('a', '1')], '<d:sync-token>token-1</d:sync-token>') });
+
+  const initial = await client.syncCalendar('personal');
+  const changes = await client.syncCalendar('personal', { syncToken: initial.syncToken });
+
+  assert.equal(requests.filter(request => request.method === 'REPORT').length, 1);
+  assert.equal(changes.syncToken, 'token-1');
+  assert.deepEqual([...changes.added, ...changes.changed, ...changes.deleted], []);
+});
+
+test('syncCalendar starts over when the server rejects the token', async () => {
+  const client = createClient();
+  stubHttp(client, request => {
+    if (request.method === 'PROPFIND') {
+      return { status: 404 };
+    }
+    return request.data?.includes('<d:sync-token>expired</d:sync-token>')
+      ? { status: 403, data: '<d:error xmlns:d="DAV:"><d:valid-sync-token/></d:error>' }
+      : { status: 207, data: multistatus([eventMember('a', '1')], '<d:sync-token>token-1</d:sync-token>') };
+  });
+
+  const changes = await client.syncCalendar('personal', { syncToken: 'expired' });
+
+  assert.equal(changes.initial, true);
+  assert.equal(changes.syncToken, 'token-1');
+  assert.deepEqual(changes.added.map(event => event.id), ['a.ics']);
+});
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeEmailAddress, normalizePhoneNumber } from '../src/utils/contact-normalization.js';
+
+test('national numbers drop the trunk prefix of their region', () => {
+  assert.equal(normalizePhoneNumber('030 1234567', 'DE'), '+49301234567');
+  assert.equal(normalizePhoneNumber('(020) 7946 0018', 'GB'), '+442079460018');
+  assert.equal(normalizePhoneNumber('06 1 234 5678', 'HU'), '+3612345678');
+  assert.equal(normalizePhoneNumber('8 495 123-45-67', 'RU'), '+74951234567');
+});
+
+test('regions without a trunk prefix keep the leading zero', () => {
+  assert.equal(normalizePhoneNumber('06 1234 5678', 'IT'), '+390612345678');
+});
+
+test('international prefixes and explicit country codes win over the region', () => {
+  assert.equal(normalizePhoneNumber('0049 30 1234567', 'DE'), '+49301234567');
+  assert.equal(normalizePhoneNumber('011 44 20 7946 0018', 'US'), '+442079460018');
+  assert.equal(normalizePhoneNumber('+49 30 1234567', 'US'), '+49301234567');
+});
+
+test('national numbers without a region cannot be normalized', () => {
+  assert.equal(normalizePhoneNumber('030 1234567', undefined), undefined);
+  assert.equal(normalizePhoneNumber('tel:+49-30-1234567;ext=12', undefined), '+49301234567');
+});
+
+test('email addresses are lower-cased with an ASCII domain', () => {
+  assert.equal(normalizeEmailAddress('mailto:Jane@Bücher.de'), 'jane@xn--bcher-kva.de');
+});
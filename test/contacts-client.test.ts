@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContactsClient } from '../src/client/contacts.js';
+import { stubHttp, StubRequest, StubResponse } from './stub-http.js';
+
+const CARDS: Record<string, { vcard: string; etag: string }> = {
+  'jane.vcf': {
+    etag: '"j1"',
+    vcard: 'BEGIN:VCARD\r\nVERSION:3.0\r\nUID:jane\r\nFN:Jane Doe\r\nEMAIL;TYPE=work:jane@example.com\r\nEND:VCARD\r\n',
+  },
+  'jane-2.vcf': {
+    etag: '"k1"',
+    vcard: 'BEGIN:VCARD\r\nVERSION:3.0\r\nUID:jane-2\r\nFN:Jane Doe\r\nEMAIL;TYPE=home:jane@home.example\r\nTEL;TYPE=cell:+49 30 1234567\r\nEND:VCARD\r\n',
+  },
+};
+
+function createClient(handler?: (request: StubRequest) => StubResponse | undefined) {
+  const client = new ContactsClient('http://nextcloud.test', 'alice', 'secret');
+  const requests = stubHttp(client, request => {
+    const handled = handler?.(request);
+    if (handled) {
+      return handled;
+    }
+    const card = CARDS[request.url.split('/').pop() ?? ''];
+    if (request.method === 'GET' && card) {
+      return { data: card.vcard, headers: { etag: card.etag } };
+    }
+    return { status: 204, headers: { etag: '"j2"' } };
+  });
+  return { client, requests };
+}
+
+test('mergeContacts writes the merged card and deletes the others with If-Match', async () => {
+  const { client, requests } = createClient();
+
+  const result = await client.mergeContacts('contacts', ['jane.vcf', 'jane-2.vcf']);
+
+  const put = requests.find(request => request.method === 'PUT');
+  assert.equal(put?.url, '/remote.php/dav/addressbooks/users/alice/contacts/jane.vcf');
+  assert.equal(put?.headers['If-Match'], '"j1"');
+  assert.match(put?.data ?? '', /jane@home\.example/);
+  assert.match(put?.data ?? '', /\+49 30 1234567/);
+
+  const deletes = requests.filter(request => request.method === 'DELETE');
+  assert.deepEqual(deletes.map(request => request.url), ['/remote.php/dav/addressbooks/users/alice/contacts/jane-2.vcf']);
+  assert.equal(deletes[0].headers['If-Match'], '"k1"');
+
+  assert.equal(result.dryRun, false);
+  assert.deepEqual(result.deleted, ['jane-2.vcf']);
+  assert.equal(result.contact.etag, '"j2"');
+  assert.deepEqual(result.contact.email?.map(email => email.value), ['jane@example.com', 'jane@home.example']);
+});
+
+test('a dry-run merge writes nothing and reports what it would delete', async () => {
+  const { client, requests } = createClient();
+
+  const result = await client.mergeContacts('contacts', ['jane.vcf', 'jane-2.vcf'], { primaryId: 'jane-2.vcf', dryRun: true });
+
+  assert.deepEqual([...new Set(requests.map(request => request.method))], ['GET']);
+  assert.equal(result.dryRun, true);
+  assert.equal(result.primaryId, 'jane-2.vcf');
+  assert.deepEqual(result.wouldDelete, ['jane.vcf']);
+  assert.equal(result.deleted, undefined);
+});
+
+test('mergeContacts keeps a contact that changed during the merge', async () => {
+  const { client } = createClient(request => request.method === 'DELETE' ? { status: 412 } : undefined);
+
+  await assert.rejects(
+    client.mergeContacts('contacts', ['jane.vcf', 'jane-2.vcf']),
+    { status: 412, message: /jane-2\.vcf was modified by another client while merging/ }
+  );
+});
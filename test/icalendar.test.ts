@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  escapeICalText,
+  foldLine,
+  parseICalendarData,
+  serializeICalComponent,
+  splitICalList,
+  unescapeICalText,
+  unfoldLines,
+} from '../src/utils/icalendar.js';
+
+test('foldLine folds at 75 octets with a leading space on continuation lines', () => {
+  const line = `DESCRIPTION:${'x'.repeat(200)}`;
+  const parts = foldLine(line).split('\r\n');
+
+  assert.ok(parts.length > 1);
+  assert.equal(Buffer.byteLength(parts[0]), 75);
+  for (const part of parts.slice(1)) {
+    assert.ok(part.startsWith(' '));
+    assert.ok(Buffer.byteLength(part) <= 75);
+  }
+  assert.deepEqual(unfoldLines(foldLine(line)), [line]);
+});
+
+test('foldLine does not split multi-byte characters', () => {
+  const line = `SUMMARY:${'ü'.repeat(60)}`;
+  const folded = foldLine(line);
+
+  assert.deepEqual(unfoldLines(folded), [line]);
+  for (const part of folded.split('\r\n')) {
+    assert.ok(Buffer.byteLength(part) <= 75);
+  }
+});
+
+test('escapeICalText and unescapeICalText round-trip special characters', () => {
+  const text = 'Room 1; Building A, 2nd floor\nBring a laptop \\ charger';
+  const escaped = escapeICalText(text);
+
+  assert.equal(escaped, 'Room 1\\; Building A\\, 2nd floor\\nBring a laptop \\\\ charger');
+  assert.equal(unescapeICalText(escaped), text);
+  assert.equal(unescapeICalText('Line 1\\NLine 2'), 'Line 1\nLine 2');
+});
+
+test('splitICalList keeps escaped separators', () => {
+  assert.deepEqual(splitICalList('Work,Family\\, close,Friends'), ['Work', 'Family\\, close', 'Friends']);
+  assert.deepEqual(splitICalList('a;b\\;c', ';'), ['a', 'b\\;c']);
+});
+
+test('parsed calendars serialize back with long lines folded', () => {
+  const summary = `Planning ${'meeting '.repeat(20)}`.trim();
+  const data = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'BEGIN:VEVENT',
+    'UID:event-1',
+    `SUMMARY:${summary}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+    '',
+  ].join('\r\n');
+
+  const [calendar] = parseICalendarData(data);
+  const serialized = serializeICalComponent(calendar);
+
+  assert.ok(serialized.split('\r\n').every(line => Buffer.byteLength(line) <= 75));
+  const [reparsed] = parseICalendarData(serialized);
+  assert.equal(reparsed.components[0].properties.find(property => property.name === 'SUMMARY')?.value, summary);
+});
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { expandRecurrence, parseRecurrenceRule } from '../src/utils/recurrence.js';
+
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+test('parseRecurrenceRule reads BYDAY with ordinals and UNTIL in UTC', () => {
+  const rule = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=2TU,-1FR;UNTIL=20251231T000000Z');
+
+  assert.equal(rule.freq, 'MONTHLY');
+  assert.deepEqual(rule.byDay, [{ weekday: 2, ordinal: 2 }, { weekday: 5, ordinal: -1 }]);
+  assert.equal(rule.until?.toISOString(), '2025-12-31T00:00:00.000Z');
+  assert.equal(rule.untilIsUtc, true);
+});
+
+test('weekly BYDAY expands to each listed weekday', () => {
+  const occurrences = expandRecurrence({
+    start: new Date('2025-03-03T09:00:00Z'),   // Monday
+    rule: parseRecurrenceRule('FREQ=WEEKLY;BYDAY=MO,WE'),
+    rangeStart: new Date('2025-03-01T00:00:00Z'),
+    rangeEnd: new Date('2025-03-15T00:00:00Z'),
+  });
+
+  assert.deepEqual(iso(occurrences), [
+    '2025-03-03T09:00:00.000Z',
+    '2025-03-05T09:00:00.000Z',
+    '2025-03-10T09:00:00.000Z',
+    '2025-03-12T09:00:00.000Z',
+  ]);
+});
+
+test('monthly BYDAY with an ordinal picks the nth weekday', () => {
+  const occurrences = expandRecurrence({
+    start: new Date('2025-01-14T10:00:00Z'),
+    rule: parseRecurrenceRule('FREQ=MONTHLY;BYDAY=2TU;COUNT=3'),
+    rangeStart: new Date('2025-01-01T00:00:00Z'),
+    rangeEnd: new Date('2026-01-01T00:00:00Z'),
+  });
+
+  assert.deepEqual(iso(occurrences), [
+    '2025-01-14T10:00:00.000Z',
+    '2025-02-11T10:00:00.000Z',
+    '2025-03-11T10:00:00.000Z',
+  ]);
+});
+
+test('UNTIL is inclusive', () => {
+  const occurrences = expandRecurrence({
+    start: new Date('2025-05-01T08:00:00Z'),
+    rule: parseRecurrenceRule('FREQ=DAILY;UNTIL=20250503T080000Z'),
+    rangeStart: new Date('2025-04-01T00:00:00Z'),
+    rangeEnd: new Date('2025-06-01T00:00:00Z'),
+  });
+
+  assert.deepEqual(iso(occurrences), [
+    '2025-05-01T08:00:00.000Z',
+    '2025-05-02T08:00:00.000Z',
+    '2025-05-03T08:00:00.000Z',
+  ]);
+});
+
+test('EXDATE removes occurrences', () => {
+  const occurrences = expandRecurrence({
+    start: new Date('2025-05-01T08:00:00Z'),
+    rule: parseRecurrenceRule('FREQ=DAILY;COUNT=4'),
+    exdates: [new Date('2025-05-02T08:00:00Z')],
+    rangeStart: new Date('2025-04-01T00:00:00Z'),
+    rangeEnd: new Date('2025-06-01T00:00:00Z'),
+  });
+
+  assert.deepEqual(iso(occurrences), [
+    '2025-05-01T08:00:00.000Z',
+    '2025-05-03T08:00:00.000Z',
+    '2025-05-04T08:00:00.000Z',
+  ]);
+});
+
+test('long-running series without COUNT reach a late range', () => {
+  const occurrences = expandRecurrence({
+    start: new Date('2020-01-01T00:00:00Z'),
+    rule: parseRecurrenceRule('FREQ=MINUTELY;INTERVAL=30'),
+    rangeStart: new Date('2025-06-01T10:00:00Z'),
+    rangeEnd: new Date('2025-06-01T11:30:00Z'),
+  });
+
+  assert.deepEqual(iso(occurrences), [
+    '2025-06-01T10:00:00.000Z',
+    '2025-06-01T10:30:00.000Z',
+    '2025-06-01T11:00:00.000Z',
+  ]);
+});
+
+test('occurrences starting before the range but overlapping it are kept', () => {
+  const occurrences = expandRecurrence({
+    start: new Date('2015-01-01T22:00:00Z'),
+    rule: parseRecurrenceRule('FREQ=HOURLY;INTERVAL=5'),
+    rangeStart: new Date('2025-06-01T12:00:00Z'),
+    rangeEnd: new Date('2025-06-01T13:00:00Z'),
+    duration: 3 * 60 * 60 * 1000,
+  });
+
+  assert.deepEqual(iso(occurrences), ['2025-06-01T11:00:00.000Z']);
+});
@@ -0,0 +1,56 @@
+import { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+export interface StubRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  data?: string;
+}
+
+export interface StubResponse {
+  status?: number;
+  data?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Answer a client's HTTP requests with `handler` instead of the network and
+ * record them. Error statuses are thrown as AxiosErrors, as axios does.
+ */
+export function stubHttp(client: object, handler: (request: StubRequest) => StubResponse): StubRequest[] {
+  const requests: StubRequest[] = [];
+  (client as any).client.defaults.adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const request: StubRequest = {
+      method: String(config.method).toUpperCase(),
+      url: String(config.url),
+      headers: AxiosHeaders.from(config.headers).toJSON() as Record<string, string>,
+      data: config.data,
+    };
+    requests.push(request);
+
+    const result = handler(request);
+    const response: AxiosResponse = {
+      status: result.status ?? 200,
+      statusText: '',
+      data: result.data ?? '',
+      headers: result.headers ?? {},
+      config,
+    };
+    if (response.status >= 400) {
+      throw new AxiosError(`Request failed with status code ${response.status}`, AxiosError.ERR_BAD_REQUEST, config, {}, response);
+    }
+    return response;
+  };
+  return requests;
+}
+
+/**
+ * Multistatus body with one response per href, each carrying the given props
+ */
+export function multistatus(responses: { href: string; props?: string; status?: string }[], extra: string = ''): string {
+  const members = responses.map(response => response.status
+    ? `<d:response><d:href>${response.href}</d:href><d:status>${response.status}</d:status></d:response>`
+    : `<d:response><d:href>${response.href}</d:href><d:propstat><d:prop>${response.props ?? ''}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`
+  ).join('');
+  return `<?xml version="1.0"?><d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav" xmlns:cs="http://calendarserver.org/ns/">${members}${extra}</d:multistatus>`;
+}
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getVCardProperty, getVCardText, getVCardTypes, parseStructuredValue, parseVCardData } from '../src/utils/vcard.js';
+
+test('quoted-printable values are decoded with their charset', () => {
+  const [card] = parseVCardData([
+    'BEGIN:VCARD',
+    'VERSION:2.1',
+    'FN;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:J=C3=BCrgen M=C3=BCller',
+    'N;CHARSET=ISO-8859-1;ENCODING=QUOTED-PRINTABLE:M=FCller;J=FCrgen;;;',
+    'END:VCARD',
+  ].join('\r\n'));
+
+  assert.equal(getVCardText(getVCardProperty(card, 'FN')), 'Jürgen Müller');
+  assert.deepEqual(parseStructuredValue(getVCardProperty(card, 'N')!.value).slice(0, 2), [['Müller'], ['Jürgen']]);
+});
+
+test('quoted-printable soft line breaks are joined', () => {
+  const [card] = parseVCardData([
+    'BEGIN:VCARD',
+    'VERSION:2.1',
+    'NOTE;ENCODING=QUOTED-PRINTABLE:First line=0D=0A=',
+    'Second line',
+    'END:VCARD',
+  ].join('\r\n'));
+
+  assert.equal(getVCardText(getVCardProperty(card, 'NOTE')), 'First line\nSecond line');
+});
+
+test('vCard 2.1 bare parameters are read as types', () => {
+  const [card] = parseVCardData('BEGIN:VCARD\r\nVERSION:2.1\r\nTEL;WORK;VOICE:+49 30 1234567\r\nEND:VCARD\r\n');
+
+  assert.deepEqual(getVCardTypes(getVCardProperty(card, 'TEL')!), ['work', 'voice']);
+});